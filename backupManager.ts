@@ -0,0 +1,241 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { copyFileWithSudo, isWritable, readFileWithSudo, removeFileWithSudo, writeFileWithSudo } from './fileUtils';
+import { getPiaDataDir } from './phpEnvironmentUtils';
+
+// ANSI color codes for consistent styling
+const colors = {
+    reset: '\x1b[0m',
+    bright: '\x1b[1m',
+    red: '\x1b[31m',
+    green: '\x1b[32m',
+    yellow: '\x1b[33m',
+    blue: '\x1b[34m',
+    cyan: '\x1b[36m',
+    white: '\x1b[37m'
+};
+
+/**
+ * A php.ini backup recorded in the catalogue
+ */
+export interface BackupEntry {
+    id: string;
+    iniPath: string;
+    backupPath: string;
+    installation: string;       // Environment name, e.g. 'Laragon' or 'System PATH'
+    phpVersion: string;
+    phpExecutable: string;
+    createdAt: string;          // ISO timestamp
+    reason: string;
+}
+
+/**
+ * Describes the installation and the change a backup is taken for
+ */
+export interface BackupContext {
+    installation?: string;
+    phpVersion?: string;
+    phpExecutable?: string;
+    reason?: string;
+    storeDir?: string;          // Central backup store; defaults to the php.ini directory
+}
+
+/**
+ * Gets the path of the backup catalogue
+ */
+function getCataloguePath(): string {
+    return path.join(getPiaDataDir(), 'backups.json');
+}
+
+/**
+ * Resolves the central backup store (--backup-dir or PIA_BACKUP_DIR), if any
+ */
+export function getBackupStoreDir(storeDir?: string): string | undefined {
+    return storeDir || process.env.PIA_BACKUP_DIR || undefined;
+}
+
+/**
+ * Reads the backup catalogue, returning an empty list when it does not exist yet
+ */
+function readCatalogue(): BackupEntry[] {
+    try {
+        const entries = fs.readJsonSync(getCataloguePath());
+        return Array.isArray(entries) ? entries : [];
+    } catch {
+        return [];
+    }
+}
+
+/**
+ * Writes the backup catalogue
+ */
+function writeCatalogue(entries: BackupEntry[]): void {
+    fs.outputJsonSync(getCataloguePath(), entries, { spaces: 2 });
+}
+
+/**
+ * Creates a short, sortable backup id such as 20261019-142301
+ */
+function createBackupId(date: Date, existing: BackupEntry[]): string {
+    const pad = (n: number) => n.toString().padStart(2, '0');
+    const base = `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}-` +
+        `${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+
+    let id = base;
+    let suffix = 2;
+    while (existing.some(entry => entry.id === id)) {
+        id = `${base}-${suffix++}`;
+    }
+    return id;
+}
+
+/**
+ * Creates a backup of a php.ini file and records it in the catalogue (with sudo support).
+ *
+ * @param filePath - Path to the php.ini file.
+ * @param useSudo - Whether to use sudo for file operations.
+ * @param context - Installation details and the reason for the change.
+ * @returns The catalogue entry, or null when the backup could not be created.
+ */
+export async function createBackup(filePath: string, useSudo: boolean = false, context: BackupContext = {}): Promise<BackupEntry | null> {
+    const now = new Date();
+    const timestamp = now.toISOString().replace(/[:.]/g, '-');
+    const storeDir = getBackupStoreDir(context.storeDir);
+
+    let backupPath: string;
+    try {
+        if (storeDir) {
+            // Central store: flatten the php.ini path into the file name
+            const flatName = filePath.replace(/^[A-Za-z]:/, '').replace(/[\\/]+/g, '_').replace(/^_/, '');
+            backupPath = path.join(storeDir, `${flatName}.backup.${timestamp}`);
+            const content = await readFileWithSudo(filePath, useSudo);
+            await fs.outputFile(backupPath, content, 'utf8');
+            console.log(`${colors.cyan}📋 Backup created: ${backupPath}${colors.reset}`);
+        } else {
+            backupPath = `${filePath}.backup.${timestamp}`;
+            await copyFileWithSudo(filePath, backupPath, useSudo);
+            console.log(`${colors.cyan}📋 Backup created${useSudo ? ' with sudo' : ''}: ${backupPath}${colors.reset}`);
+        }
+    } catch (error: any) {
+        console.log(`${colors.yellow}⚠️  Could not create backup: ${error.message} (continuing without backup)${colors.reset}`);
+        return null;
+    }
+
+    const entries = readCatalogue();
+    const entry: BackupEntry = {
+        id: createBackupId(now, entries),
+        iniPath: filePath,
+        backupPath,
+        installation: context.installation || 'unknown',
+        phpVersion: context.phpVersion || 'unknown',
+        phpExecutable: context.phpExecutable || '',
+        createdAt: now.toISOString(),
+        reason: context.reason || 'php.ini update'
+    };
+
+    try {
+        writeCatalogue([...entries, entry]);
+    } catch (error: any) {
+        console.log(`${colors.yellow}⚠️  Could not update backup catalogue: ${error.message}${colors.reset}`);
+    }
+
+    return entry;
+}
+
+/**
+ * Lists catalogued backups, newest first.
+ *
+ * @param iniPath - Only list backups of this php.ini file.
+ */
+export function listBackups(iniPath?: string): BackupEntry[] {
+    return readCatalogue()
+        .filter(entry => !iniPath || path.resolve(entry.iniPath) === path.resolve(iniPath))
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Finds a backup by id, or the most recent one when no id is given
+ */
+export function findBackup(id?: string, iniPath?: string): BackupEntry | undefined {
+    const entries = listBackups(iniPath);
+    return id ? entries.find(entry => entry.id === id) : entries[0];
+}
+
+/**
+ * Restores a php.ini file from a catalogued backup using the sudo-aware read and write
+ * paths. The current content is backed up first so the restore can be undone.
+ *
+ * @param entry - The backup to restore.
+ * @param storeDir - Central backup store for the safety backup.
+ * @returns The safety backup of the replaced content, if one was created.
+ */
+export async function restoreBackup(entry: BackupEntry, storeDir?: string): Promise<BackupEntry | null> {
+    if (!fs.existsSync(entry.backupPath)) {
+        throw new Error(`Backup file not found: ${entry.backupPath}`);
+    }
+
+    const useSudo = process.platform !== 'win32' && fs.existsSync(entry.iniPath) && !isWritable(entry.iniPath);
+
+    let safetyBackup: BackupEntry | null = null;
+    if (fs.existsSync(entry.iniPath)) {
+        safetyBackup = await createBackup(entry.iniPath, useSudo, {
+            installation: entry.installation,
+            phpVersion: entry.phpVersion,
+            phpExecutable: entry.phpExecutable,
+            reason: `Before restoring backup ${entry.id}`,
+            storeDir
+        });
+    }
+
+    const content = await readFileWithSudo(entry.backupPath, useSudo);
+    await writeFileWithSudo(entry.iniPath, content, useSudo);
+
+    return safetyBackup;
+}
+
+/**
+ * Deletes old backups, keeping the newest ones for each php.ini file.
+ *
+ * @param keep - Number of backups to keep per php.ini file.
+ * @param iniPath - Only prune backups of this php.ini file.
+ * @returns The removed catalogue entries.
+ */
+export async function pruneBackups(keep: number, iniPath?: string): Promise<BackupEntry[]> {
+    if (!Number.isInteger(keep) || keep < 0) {
+        throw new Error(`Invalid --keep value: ${keep}`);
+    }
+
+    const entries = readCatalogue();
+    const byIniPath = new Map<string, BackupEntry[]>();
+    for (const entry of entries) {
+        if (iniPath && path.resolve(entry.iniPath) !== path.resolve(iniPath)) continue;
+        const group = byIniPath.get(entry.iniPath) || [];
+        group.push(entry);
+        byIniPath.set(entry.iniPath, group);
+    }
+
+    const expired: BackupEntry[] = [];
+    for (const group of byIniPath.values()) {
+        group.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+        expired.push(...group.slice(keep));
+    }
+
+    // Entries whose file could not be deleted stay in the catalogue, so a later prune can retry
+    const removed: BackupEntry[] = [];
+    for (const entry of expired) {
+        try {
+            if (fs.existsSync(entry.backupPath)) {
+                const useSudo = process.platform !== 'win32' && !isWritable(path.dirname(entry.backupPath));
+                await removeFileWithSudo(entry.backupPath, useSudo);
+            }
+            removed.push(entry);
+        } catch (error: any) {
+            console.log(`${colors.yellow}⚠️  Could not delete ${entry.backupPath}: ${error.message}${colors.reset}`);
+        }
+    }
+
+    const removedIds = new Set(removed.map(entry => entry.id));
+    writeCatalogue(entries.filter(entry => !removedIds.has(entry.id)));
+
+    return removed;
+}
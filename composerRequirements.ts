@@ -0,0 +1,173 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { resolveExtensionName } from './extensionCatalogue';
+import { ResolvedProfile } from './profiles';
+import { satisfiesVersionConstraint } from './versionConstraint';
+
+export type ComposerMode = 'augment' | 'replace';
+
+/**
+ * An extension required through an `ext-*` platform requirement
+ */
+export interface ExtensionRequirement {
+    extension: string;
+    constraints: string[];
+    requiredBy: string[];       // Package names; the root package is reported by its name or 'composer.json'
+}
+
+/**
+ * A `php` platform requirement of a package
+ */
+export interface PhpRequirement {
+    constraint: string;
+    requiredBy: string;
+}
+
+export interface ComposerRequirements {
+    projectDir: string;
+    sources: string[];          // composer.json and/or composer.lock paths that were read
+    extensions: ExtensionRequirement[];
+    php: PhpRequirement[];
+}
+
+/**
+ * Converts a Composer platform package such as "ext-pdo_mysql" to the PHP module name
+ */
+export function extensionFromComposerPackage(packageName: string): string | null {
+    const match = packageName.toLowerCase().match(/^ext-(.+)$/);
+    if (!match) return null;
+    // Composer spells some extensions differently from the PHP module name (ext-zend-opcache)
+    return resolveExtensionName(match[1]);
+}
+
+/**
+ * Finds the directory containing composer.json by walking up from a directory
+ */
+export function findComposerProject(startDir: string = process.cwd()): string | null {
+    let dir = path.resolve(startDir);
+
+    while (true) {
+        if (fs.existsSync(path.join(dir, 'composer.json'))) return dir;
+
+        const parent = path.dirname(dir);
+        if (parent === dir) return null;
+        dir = parent;
+    }
+}
+
+/**
+ * Reads a JSON file, naming the file in the error message
+ */
+function readJson(filePath: string): unknown {
+    try {
+        return JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    } catch (error: any) {
+        throw new Error(`Invalid ${path.basename(filePath)} (${filePath}): ${error.message}`);
+    }
+}
+
+/**
+ * Narrows a JSON value to an object; anything else is treated as empty
+ */
+function asObject(value: unknown): Record<string, unknown> {
+    return value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : {};
+}
+
+/**
+ * Narrows a JSON value to a list; anything else is treated as empty
+ */
+function asList(value: unknown): unknown[] {
+    return Array.isArray(value) ? value : [];
+}
+
+/**
+ * Reads the `ext-*` and `php` requirements of a Composer project from composer.json and
+ * every package entry of composer.lock.
+ *
+ * @param projectDir - Directory containing composer.json.
+ * @param includeDev - Include require-dev and packages-dev requirements.
+ * @throws If neither composer.json nor composer.lock exists, or a file is not valid JSON.
+ */
+export function readComposerRequirements(projectDir: string, includeDev: boolean = true): ComposerRequirements {
+    const composerJsonPath = path.join(projectDir, 'composer.json');
+    const composerLockPath = path.join(projectDir, 'composer.lock');
+    const result: ComposerRequirements = { projectDir, sources: [], extensions: [], php: [] };
+    const extensions = new Map<string, ExtensionRequirement>();
+
+    const collect = (requires: unknown, requiredBy: string) => {
+        for (const [packageName, constraint] of Object.entries(asObject(requires))) {
+            if (typeof constraint !== 'string') continue;
+            if (packageName.toLowerCase() === 'php') {
+                result.php.push({ constraint, requiredBy });
+                continue;
+            }
+
+            const extension = extensionFromComposerPackage(packageName);
+            if (!extension) continue;
+
+            const requirement = extensions.get(extension) || { extension, constraints: [], requiredBy: [] };
+            if (!requirement.requiredBy.includes(requiredBy)) requirement.requiredBy.push(requiredBy);
+            if (constraint && constraint !== '*' && !requirement.constraints.includes(constraint)) requirement.constraints.push(constraint);
+            extensions.set(extension, requirement);
+        }
+    };
+
+    if (fs.existsSync(composerJsonPath)) {
+        const composerJson = asObject(readJson(composerJsonPath));
+        const rootName = typeof composerJson.name === 'string' ? composerJson.name : 'composer.json';
+        result.sources.push(composerJsonPath);
+        collect(composerJson.require, rootName);
+        if (includeDev) collect(composerJson['require-dev'], `${rootName} (dev)`);
+    }
+
+    if (fs.existsSync(composerLockPath)) {
+        const composerLock = asObject(readJson(composerLockPath));
+        result.sources.push(composerLockPath);
+        const packages = [
+            ...asList(composerLock.packages),
+            ...(includeDev ? asList(composerLock['packages-dev']) : [])
+        ].map(asObject);
+        for (const pkg of packages) {
+            if (typeof pkg.name === 'string') collect(pkg.require, pkg.name);
+        }
+    }
+
+    if (result.sources.length === 0) {
+        throw new Error(`No composer.json or composer.lock found in ${projectDir}`);
+    }
+
+    result.extensions = [...extensions.values()].sort((a, b) => a.extension.localeCompare(b.extension));
+    return result;
+}
+
+/**
+ * Returns the `php` requirements a PHP version does not satisfy
+ */
+export function findUnsatisfiedPhpRequirements(requirements: ComposerRequirements, phpVersion: string): PhpRequirement[] {
+    return requirements.php.filter(requirement => {
+        try {
+            return !satisfiesVersionConstraint(phpVersion, requirement.constraint);
+        } catch {
+            return false; // Unparseable constraints are left to Composer
+        }
+    });
+}
+
+/**
+ * Uses the Composer extension requirements as the essential extensions of a profile.
+ *
+ * @param mode - 'augment' adds them to the profile's essential extensions, 'replace' uses only them.
+ */
+export function applyComposerRequirements(profile: ResolvedProfile, requirements: ComposerRequirements, mode: ComposerMode = 'augment'): ResolvedProfile {
+    const required = requirements.extensions.map(requirement => requirement.extension);
+    const base = mode === 'replace' ? [] : profile.essentialExtensions;
+    const essentialExtensions = [...base, ...required.filter(ext => !base.includes(ext))];
+
+    return {
+        ...profile,
+        essentialExtensions,
+        optionalExtensions: profile.optionalExtensions.filter(ext => !essentialExtensions.includes(ext)),
+        disableExtensions: profile.disableExtensions.filter(ext => !required.includes(ext)),
+        preferExtensions: [...required, ...profile.preferExtensions.filter(ext => !required.includes(ext))]
+    };
+}
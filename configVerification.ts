@@ -0,0 +1,103 @@
+import { formatIniValue } from './iniDocument';
+import { getEffectiveIniValues, getExtensionsLoaded } from './phpRuntime';
+
+export type VerificationStatus = 'ok' | 'mismatch' | 'unknown' | 'cli-override';
+
+/**
+ * Expected and effective state of one directive or extension
+ */
+export interface VerificationItem {
+    kind: 'setting' | 'extension';
+    name: string;
+    expected: string;
+    effective: string;
+    status: VerificationStatus;
+}
+
+export interface VerificationResult {
+    checked: boolean;           // False when PHP could not be run
+    ok: boolean;                // No mismatches
+    items: VerificationItem[];
+}
+
+/**
+ * What a configuration run expects PHP to report afterwards
+ */
+export interface ExpectedConfiguration {
+    settings: Record<string, string | number>;  // Directives as written
+    loaded: string[];                           // Extensions that must be loaded
+    notLoaded: string[];                        // Extensions that were disabled
+}
+
+// The CLI SAPI forces these after reading php.ini, so `php` never reports the configured value
+const CLI_HARDCODED_DIRECTIVES = ['html_errors', 'implicit_flush', 'max_execution_time', 'max_input_time', 'output_buffering', 'register_argc_argv'];
+
+const FALSE_VALUES = ['', '0', 'off', 'no', 'false', 'none'];
+const TRUE_VALUES = ['1', 'on', 'yes', 'true'];
+
+/**
+ * Compares two parsed ini values, treating the spellings of booleans as equal
+ */
+function sameIniValue(expected: string, effective: string): boolean {
+    const a = expected.trim().toLowerCase();
+    const b = effective.trim().toLowerCase();
+    if (a === b) return true;
+    return (FALSE_VALUES.includes(a) && FALSE_VALUES.includes(b)) || (TRUE_VALUES.includes(a) && TRUE_VALUES.includes(b));
+}
+
+/**
+ * Runs PHP with the configuration that was written and compares the effective directive
+ * values (ini_get) and loaded extensions (extension_loaded) with what was expected. An
+ * earlier conf.d file, a wrong extension_dir or the wrong SAPI shows up as a mismatch.
+ *
+ * @param phpExecutable - Path to the PHP executable.
+ * @param expected - Written settings and the extensions that must (not) be loaded.
+ * @param iniArgs - Arguments selecting the configuration, e.g. ['-c', '/etc/php/8.3/fpm/php.ini'].
+ * @param env - Extra environment variables (e.g. PHP_INI_SCAN_DIR).
+ */
+export function verifyEffectiveConfiguration(
+    phpExecutable: string,
+    expected: ExpectedConfiguration,
+    iniArgs: string[] = [],
+    env: Record<string, string> = {}
+): VerificationResult {
+    const written = Object.fromEntries(Object.entries(expected.settings).map(([key, value]) => [key, formatIniValue(value)]));
+    const extensions = [...expected.loaded, ...expected.notLoaded];
+
+    const values = Object.keys(written).length > 0 ? getEffectiveIniValues(phpExecutable, written, iniArgs, env) : {};
+    const loaded = extensions.length > 0 ? getExtensionsLoaded(phpExecutable, extensions, iniArgs, env) : {};
+    const checked = (Object.keys(written).length === 0 || Object.keys(values).length > 0) &&
+        (extensions.length === 0 || Object.keys(loaded).length > 0);
+    if (!checked) {
+        return { checked: false, ok: false, items: [] };
+    }
+
+    const items: VerificationItem[] = [];
+    for (const key of Object.keys(written)) {
+        const value = values[key];
+        if (!value) continue;
+
+        let status: VerificationStatus = 'ok';
+        if (value.effective === null) {
+            // Directives of extensions that are not loaded are unknown to PHP
+            status = 'unknown';
+        } else if (!sameIniValue(value.expected, value.effective)) {
+            status = CLI_HARDCODED_DIRECTIVES.includes(key.toLowerCase()) ? 'cli-override' : 'mismatch';
+        }
+        items.push({ kind: 'setting', name: key, expected: value.expected, effective: value.effective ?? '(unknown)', status });
+    }
+
+    for (const extension of extensions) {
+        const shouldLoad = expected.loaded.includes(extension);
+        const isLoaded = !!loaded[extension];
+        items.push({
+            kind: 'extension',
+            name: extension,
+            expected: shouldLoad ? 'loaded' : 'not loaded',
+            effective: isLoaded ? 'loaded' : 'not loaded',
+            status: isLoaded === shouldLoad ? 'ok' : 'mismatch'
+        });
+    }
+
+    return { checked: true, ok: items.every(item => item.status !== 'mismatch'), items };
+}
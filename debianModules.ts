@@ -0,0 +1,222 @@
+import { spawnSync } from 'child_process';
+import fs from 'fs-extra';
+import path from 'path';
+import { writeFileWithSudo } from './fileUtils';
+import { extensionNameFromValue } from './iniDocument';
+import { checkPhpStartup, StartupIssue } from './phpRuntime';
+
+// ANSI color codes for consistent styling
+const colors = {
+    reset: '\x1b[0m',
+    bright: '\x1b[1m',
+    red: '\x1b[31m',
+    green: '\x1b[32m',
+    yellow: '\x1b[33m',
+    blue: '\x1b[34m',
+    cyan: '\x1b[36m',
+    white: '\x1b[37m'
+};
+
+/**
+ * The Debian/Ubuntu extension layout of one SAPI: module files in
+ * /etc/php/X.Y/mods-available, enabled by symlinks in /etc/php/X.Y/<sapi>/conf.d
+ */
+export interface DebianModsLayout {
+    version: string;            // major.minor, as used by phpenmod -v
+    sapi: string;
+    modsDir: string;
+    scanDir: string;
+}
+
+/**
+ * An extension shipped as mods-available/<name>.ini
+ */
+export interface DebianModule {
+    name: string;
+    iniPath: string;
+    priority: number;           // From the '; priority=NN' header (phpenmod defaults to 20)
+    zend: boolean;              // Loaded with zend_extension=
+}
+
+export type ModuleAction = 'enable' | 'disable';
+
+export interface ModuleChange {
+    action: ModuleAction;
+    module: string;
+}
+
+export interface ModuleChangeResult {
+    applied: boolean;
+    rolledBack: boolean;
+    issues: StartupIssue[];     // Startup problems introduced by the module changes
+}
+
+/**
+ * Detects the mods-available layout from a SAPI's php.ini path (/etc/php/X.Y/<sapi>/php.ini).
+ *
+ * @param iniPath - php.ini of the SAPI.
+ * @param scanDir - conf.d directory of the SAPI (defaults to the conf.d next to php.ini).
+ * @returns The layout, or null when the installation does not use mods-available.
+ */
+export function detectDebianModsLayout(iniPath: string, scanDir?: string): DebianModsLayout | null {
+    const sapiDir = path.dirname(iniPath);
+    const versionDir = path.dirname(sapiDir);
+    const version = path.basename(versionDir);
+    const modsDir = path.join(versionDir, 'mods-available');
+    const sapiScanDir = scanDir || path.join(sapiDir, 'conf.d');
+
+    if (!/^\d+\.\d+$/.test(version) || !fs.existsSync(modsDir) || !fs.existsSync(sapiScanDir)) {
+        return null;
+    }
+
+    return { version, sapi: path.basename(sapiDir), modsDir, scanDir: sapiScanDir };
+}
+
+/**
+ * Lists the modules in a mods-available directory
+ */
+export function listAvailableModules(modsDir: string): DebianModule[] {
+    if (!fs.existsSync(modsDir)) return [];
+
+    return fs.readdirSync(modsDir)
+        .filter(fileName => fileName.endsWith('.ini'))
+        .sort()
+        .map(fileName => {
+            const iniPath = path.join(modsDir, fileName);
+            const content = fs.readFileSync(iniPath, 'utf8');
+            const priority = content.match(/^\s*;\s*priority\s*=\s*(\d+)/m);
+            return {
+                name: path.basename(fileName, '.ini'),
+                iniPath,
+                priority: priority ? parseInt(priority[1], 10) : 20,
+                zend: /^\s*zend_extension\s*=/m.test(content)
+            };
+        });
+}
+
+/**
+ * Gets the modules a SAPI has enabled (conf.d/NN-<name>.ini entries for mods-available files)
+ */
+export function getEnabledModules(layout: DebianModsLayout): string[] {
+    const available = listAvailableModules(layout.modsDir).map(module => module.name);
+
+    return fs.readdirSync(layout.scanDir)
+        .map(fileName => fileName.match(/^\d+-(.+)\.ini$/)?.[1])
+        .filter((name): name is string => !!name && available.includes(name));
+}
+
+/**
+ * Finds the module that provides an extension. Module files are named after the extension
+ * in almost every package; otherwise the extension= line inside the file is matched.
+ */
+export function findModuleForExtension(modules: DebianModule[], extension: string): DebianModule | undefined {
+    const name = extension.toLowerCase();
+    return modules.find(module => module.name === name) || modules.find(module => {
+        const content = fs.readFileSync(module.iniPath, 'utf8');
+        return [...content.matchAll(/^\s*(?:zend_)?extension\s*=\s*(.+)$/gm)]
+            .some(match => extensionNameFromValue(match[1].split(';')[0].trim().replace(/^["']|["']$/g, '')) === name);
+    });
+}
+
+/**
+ * Writes mods-available/<name>.ini for an extension that no package provides (e.g. a PECL
+ * build), in the format of the packaged module files. The priority is phpenmod's default of
+ * 20, or later than the modules of its prerequisites so their conf.d links sort first.
+ *
+ * @param layout - The mods-available layout.
+ * @param extension - Extension name; the module loads <extension>.so from extension_dir.
+ * @param options - Zend extension flag, prerequisites that must load first and sudo usage.
+ * @returns The module file path.
+ */
+export async function writeModuleFile(
+    layout: DebianModsLayout,
+    extension: string,
+    options: { zend?: boolean; prerequisites?: string[]; useSudo?: boolean } = {}
+): Promise<string> {
+    const { zend = false, prerequisites = [], useSudo = false } = options;
+    const modules = listAvailableModules(layout.modsDir);
+    const priority = prerequisites
+        .map(prerequisite => findModuleForExtension(modules, prerequisite))
+        .reduce((highest, module) => module && module.priority >= highest ? module.priority + 5 : highest, 20);
+
+    const iniPath = path.join(layout.modsDir, `${extension}.ini`);
+    const content = `; configuration for php ${extension} module\n; priority=${priority}\n${zend ? 'zend_extension' : 'extension'}=${extension}.so\n`;
+    await writeFileWithSudo(iniPath, content, useSudo);
+    return iniPath;
+}
+
+/**
+ * Runs phpenmod or phpdismod for one SAPI of a PHP version
+ */
+function runModuleCommand(layout: DebianModsLayout, action: ModuleAction, modules: string[], useSudo: boolean): void {
+    const command = action === 'enable' ? 'phpenmod' : 'phpdismod';
+    const args = ['-v', layout.version, '-s', layout.sapi, ...modules];
+    const result = useSudo ?
+        spawnSync('sudo', [command, ...args], { encoding: 'utf8', timeout: 30000 }) :
+        spawnSync(command, args, { encoding: 'utf8', timeout: 30000 });
+
+    if (result.error || result.status !== 0) {
+        const detail = result.error ? result.error.message : (result.stderr || result.stdout || '').trim();
+        throw new Error(`${command} ${args.join(' ')} failed: ${detail}`);
+    }
+}
+
+/**
+ * Applies module changes with phpenmod/phpdismod and verifies that PHP still starts.
+ * The changes are reverted when they introduce startup errors, like a php.ini transaction.
+ *
+ * @param layout - The SAPI's mods-available layout.
+ * @param changes - Modules to enable and disable.
+ * @param options - Sudo usage and the PHP binary and arguments used for verification.
+ */
+export function applyModuleChanges(
+    layout: DebianModsLayout,
+    changes: ModuleChange[],
+    options: { useSudo?: boolean; phpExecutable?: string; iniArgs?: string[]; env?: Record<string, string> } = {}
+): ModuleChangeResult {
+    const { useSudo = false, phpExecutable, iniArgs = [], env = {} } = options;
+    const enable = changes.filter(change => change.action === 'enable').map(change => change.module);
+    const disable = changes.filter(change => change.action === 'disable').map(change => change.module);
+    if (enable.length === 0 && disable.length === 0) {
+        return { applied: false, rolledBack: false, issues: [] };
+    }
+
+    const baseline = phpExecutable ? checkPhpStartup(phpExecutable, iniArgs, env) : null;
+
+    let disabled = false;
+    try {
+        if (disable.length > 0) runModuleCommand(layout, 'disable', disable, useSudo);
+        disabled = true;
+        if (enable.length > 0) runModuleCommand(layout, 'enable', enable, useSudo);
+    } catch (error) {
+        // Undo the disable step when the enable step fails, so no half of the change remains
+        if (disabled && disable.length > 0) {
+            try {
+                runModuleCommand(layout, 'enable', disable, useSudo);
+            } catch (revertError: any) {
+                console.log(`${colors.red}❌ Could not re-enable ${disable.join(', ')}: ${revertError.message}${colors.reset}`);
+            }
+        }
+        throw error;
+    }
+    console.log(`${colors.green}✅ Updated ${layout.sapi} modules${enable.length ? ` (enabled: ${enable.join(', ')})` : ''}${disable.length ? ` (disabled: ${disable.join(', ')})` : ''}${colors.reset}`);
+
+    if (!phpExecutable || !baseline) {
+        return { applied: true, rolledBack: false, issues: [] };
+    }
+
+    const after = checkPhpStartup(phpExecutable, iniArgs, env);
+    const knownIssues = new Set(baseline.issues.map(issue => `${issue.type}|${issue.message}`));
+    const issues = after.issues.filter(issue => !knownIssues.has(`${issue.type}|${issue.message}`));
+    if (issues.length === 0 && !(after.exitCode !== 0 && baseline.exitCode === 0)) {
+        return { applied: true, rolledBack: false, issues: [] };
+    }
+
+    console.log(`${colors.red}❌ PHP failed to start cleanly after changing modules:${colors.reset}`);
+    issues.forEach(issue => console.log(`   • ${colors.red}${issue.message}${colors.reset}`));
+    if (enable.length > 0) runModuleCommand(layout, 'disable', enable, useSudo);
+    if (disable.length > 0) runModuleCommand(layout, 'enable', disable, useSudo);
+    console.log(`${colors.yellow}↩️  Reverted the ${layout.sapi} module changes${colors.reset}`);
+
+    return { applied: false, rolledBack: true, issues };
+}
@@ -0,0 +1,466 @@
+import { compareVersions } from './versionConstraint';
+
+export type DirectiveType = 'boolean' | 'integer' | 'float' | 'size' | 'boolean-or-size' | 'string' | 'enum' | 'error-level' | 'path';
+
+/**
+ * A php.ini directive: its value type, PHP default, valid range and the PHP versions it exists in
+ */
+export interface DirectiveDefinition {
+    type: DirectiveType;
+    default?: string;
+    min?: number;
+    max?: number;
+    values?: string[];          // Allowed values for 'enum' directives
+    since?: string;             // First PHP version with the directive
+    deprecated?: string;        // PHP version that deprecated it (setting it emits a startup deprecation)
+    removed?: string;           // First PHP version without the directive
+    replacement?: string;       // Directive that replaces a deprecated or removed one
+}
+
+export type DirectiveCheckStatus = 'ok' | 'translated' | 'skipped' | 'unknown';
+
+/**
+ * The outcome of checking a directive against the catalogue for a PHP version
+ */
+export interface DirectiveCheck {
+    key: string;
+    value: string | number;
+    status: DirectiveCheckStatus;
+    targetKey?: string;         // Directive and value to write instead ('translated')
+    targetValue?: string | number;
+    message?: string;
+    suggestion?: string;        // Closest known directive for unknown keys
+}
+
+/**
+ * Directives written by the built-in profiles and framework presets, plus the common
+ * core and bundled extension directives. Versions follow the PHP changelog.
+ */
+export const DIRECTIVE_CATALOGUE: Record<string, DirectiveDefinition> = {
+    // Language and engine
+    'short_open_tag': { type: 'boolean', default: '1' },
+    'precision': { type: 'integer', default: '14', min: -1, max: 50 },
+    'serialize_precision': { type: 'integer', default: '-1', min: -1, max: 50 },
+    'zend.assertions': { type: 'integer', default: '1', min: -1, max: 1 },
+    'zend.enable_gc': { type: 'boolean', default: '1' },
+    'zend.exception_ignore_args': { type: 'boolean', default: '0', since: '7.4' },
+    'zend.exception_string_param_max_len': { type: 'integer', default: '15', min: 0, max: 1000000, since: '8.0' },
+    'zend.max_allowed_stack_size': { type: 'size', default: '0', since: '8.3' },
+    'zend.reserved_stack_size': { type: 'size', default: '0', since: '8.3' },
+    'zend.detect_unicode': { type: 'boolean', default: '1' },
+    'zend.multibyte': { type: 'boolean', default: '0' },
+    'fiber.stack_size': { type: 'size', since: '8.1' },
+    'disable_functions': { type: 'string', default: '' },
+    'disable_classes': { type: 'string', default: '' },
+    'expose_php': { type: 'boolean', default: '1' },
+    'output_buffering': { type: 'boolean-or-size', default: '0', min: 0 },
+    'output_handler': { type: 'string', default: '' },
+    'implicit_flush': { type: 'boolean', default: '0' },
+    'unserialize_callback_func': { type: 'string', default: '' },
+    'unserialize_max_depth': { type: 'integer', default: '4096', min: 0, since: '7.4' },
+    'hard_timeout': { type: 'integer', default: '2', min: 0, since: '7.1' },
+    'auto_detect_line_endings': { type: 'boolean', default: '0', deprecated: '8.1' },
+    'track_errors': { type: 'boolean', default: '0', deprecated: '7.2', removed: '8.0' },
+    'asp_tags': { type: 'boolean', default: '0', removed: '7.0' },
+    'safe_mode': { type: 'boolean', default: '0', removed: '5.4' },
+    'magic_quotes_gpc': { type: 'boolean', default: '0', removed: '5.4' },
+    'register_globals': { type: 'boolean', default: '0', removed: '5.4' },
+    'allow_call_time_pass_reference': { type: 'boolean', default: '0', removed: '5.4' },
+    'always_populate_raw_post_data': { type: 'integer', default: '0', removed: '7.0' },
+    'y2k_compliance': { type: 'boolean', default: '1', removed: '5.4' },
+    'sql.safe_mode': { type: 'boolean', default: '0', removed: '7.2' },
+
+    // Resource limits
+    'max_execution_time': { type: 'integer', default: '30', min: 0 },
+    'max_input_time': { type: 'integer', default: '-1', min: -1 },
+    'max_input_nesting_level': { type: 'integer', default: '64', min: 1 },
+    'max_input_vars': { type: 'integer', default: '1000', min: 1 },
+    'max_multipart_body_parts': { type: 'integer', default: '-1', min: -1, since: '8.0.28' },
+    'memory_limit': { type: 'size', default: '128M', min: -1 },
+
+    // Error handling and logging
+    'error_reporting': { type: 'error-level', default: 'E_ALL' },
+    'display_errors': { type: 'enum', default: '1', values: ['on', 'off', '1', '0', 'true', 'false', 'yes', 'no', 'stderr', 'stdout'] },
+    'display_startup_errors': { type: 'boolean', default: '1' },
+    'log_errors': { type: 'boolean', default: '1' },
+    'log_errors_max_len': { type: 'integer', default: '1024', min: 0, removed: '8.1' },
+    'ignore_repeated_errors': { type: 'boolean', default: '0' },
+    'ignore_repeated_source': { type: 'boolean', default: '0' },
+    'report_memleaks': { type: 'boolean', default: '1' },
+    'html_errors': { type: 'boolean', default: '1' },
+    'docref_root': { type: 'string', default: '' },
+    'docref_ext': { type: 'string', default: '' },
+    'error_prepend_string': { type: 'string', default: '' },
+    'error_append_string': { type: 'string', default: '' },
+    'error_log': { type: 'path', default: '' },
+    'error_log_mode': { type: 'integer', default: '0644', since: '8.2' },
+    'syslog.ident': { type: 'string', default: 'php', since: '7.3' },
+    'syslog.facility': { type: 'string', default: 'LOG_USER', since: '7.3' },
+    'syslog.filter': { type: 'enum', default: 'no-ctrl', values: ['all', 'no-ctrl', 'ascii', 'raw'], since: '7.3' },
+
+    // Data handling
+    'variables_order': { type: 'string', default: 'EGPCS' },
+    'request_order': { type: 'string', default: '' },
+    'register_argc_argv': { type: 'boolean', default: '1' },
+    'auto_globals_jit': { type: 'boolean', default: '1' },
+    'enable_post_data_reading': { type: 'boolean', default: '1' },
+    'post_max_size': { type: 'size', default: '8M', min: 0 },
+    'auto_prepend_file': { type: 'path', default: '' },
+    'auto_append_file': { type: 'path', default: '' },
+    'default_mimetype': { type: 'string', default: 'text/html' },
+    'default_charset': { type: 'string', default: 'UTF-8' },
+    'input_encoding': { type: 'string', default: '' },
+    'output_encoding': { type: 'string', default: '' },
+    'internal_encoding': { type: 'string', default: '' },
+
+    // Paths and directories
+    'include_path': { type: 'string', default: '.:/usr/share/php' },
+    'doc_root': { type: 'path', default: '' },
+    'user_dir': { type: 'path', default: '' },
+    'extension_dir': { type: 'path' },
+    'sys_temp_dir': { type: 'path', default: '' },
+    'enable_dl': { type: 'boolean', default: '0' },
+    'open_basedir': { type: 'string', default: '' },
+    'cgi.fix_pathinfo': { type: 'boolean', default: '1' },
+    'cgi.force_redirect': { type: 'boolean', default: '1' },
+    'fastcgi.impersonate': { type: 'boolean', default: '0' },
+    'fastcgi.logging': { type: 'boolean', default: '1' },
+
+    // File uploads and fopen wrappers
+    'file_uploads': { type: 'boolean', default: '1' },
+    'upload_tmp_dir': { type: 'path', default: '' },
+    'upload_max_filesize': { type: 'size', default: '2M', min: 0 },
+    'max_file_uploads': { type: 'integer', default: '20', min: 0 },
+    'allow_url_fopen': { type: 'boolean', default: '1' },
+    'allow_url_include': { type: 'boolean', default: '0' },
+    'from': { type: 'string', default: '' },
+    'user_agent': { type: 'string', default: '' },
+    'default_socket_timeout': { type: 'integer', default: '60' },
+
+    // Output compression
+    'zlib.output_compression': { type: 'boolean', default: '0' },
+    'zlib.output_compression_level': { type: 'integer', default: '-1', min: -1, max: 9 },
+    'zlib.output_handler': { type: 'string', default: '' },
+
+    // Realpath cache
+    'realpath_cache_size': { type: 'size', default: '4096K', min: 0 },
+    'realpath_cache_ttl': { type: 'integer', default: '120', min: 0 },
+
+    // Date
+    'date.timezone': { type: 'string', default: 'UTC' },
+    'date.default_latitude': { type: 'float', default: '31.7667', deprecated: '8.4' },
+    'date.default_longitude': { type: 'float', default: '35.2333', deprecated: '8.4' },
+    'date.sunrise_zenith': { type: 'float', default: '90.833333', deprecated: '8.4' },
+    'date.sunset_zenith': { type: 'float', default: '90.833333', deprecated: '8.4' },
+
+    // Session
+    'session.save_handler': { type: 'string', default: 'files' },
+    'session.save_path': { type: 'path', default: '' },
+    'session.use_strict_mode': { type: 'boolean', default: '0' },
+    'session.use_cookies': { type: 'boolean', default: '1' },
+    'session.use_only_cookies': { type: 'boolean', default: '1' },
+    'session.use_trans_sid': { type: 'boolean', default: '0' },
+    'session.cookie_secure': { type: 'boolean', default: '0' },
+    'session.cookie_httponly': { type: 'boolean', default: '0' },
+    'session.cookie_samesite': { type: 'enum', default: '', values: ['', 'lax', 'strict', 'none'], since: '7.3' },
+    'session.cookie_lifetime': { type: 'integer', default: '0', min: 0 },
+    'session.cookie_path': { type: 'string', default: '/' },
+    'session.cookie_domain': { type: 'string', default: '' },
+    'session.name': { type: 'string', default: 'PHPSESSID' },
+    'session.auto_start': { type: 'boolean', default: '0' },
+    'session.serialize_handler': { type: 'string', default: 'php' },
+    'session.gc_probability': { type: 'integer', default: '1', min: 0 },
+    'session.gc_divisor': { type: 'integer', default: '100', min: 1 },
+    'session.gc_maxlifetime': { type: 'integer', default: '1440', min: 0 },
+    'session.referer_check': { type: 'string', default: '' },
+    'session.cache_limiter': { type: 'string', default: 'nocache' },
+    'session.cache_expire': { type: 'integer', default: '180', min: 0 },
+    'session.lazy_write': { type: 'boolean', default: '1', since: '7.0' },
+    'session.sid_length': { type: 'integer', default: '32', min: 22, max: 256, since: '7.1', deprecated: '8.4' },
+    'session.sid_bits_per_character': { type: 'integer', default: '4', min: 4, max: 6, since: '7.1', deprecated: '8.4' },
+    'session.trans_sid_tags': { type: 'string', default: 'a=href,area=href,frame=src,form=', since: '7.1' },
+    'session.upload_progress.enabled': { type: 'boolean', default: '1' },
+    'session.hash_function': { type: 'string', default: '0', removed: '7.1' },
+    'session.hash_bits_per_character': { type: 'integer', default: '4', removed: '7.1', replacement: 'session.sid_bits_per_character' },
+    'session.entropy_file': { type: 'path', default: '', removed: '7.1' },
+    'session.entropy_length': { type: 'integer', default: '0', removed: '7.1' },
+
+    // Assertions
+    'assert.active': { type: 'boolean', default: '1', deprecated: '8.3' },
+    'assert.exception': { type: 'boolean', default: '1', deprecated: '8.3' },
+    'assert.warning': { type: 'boolean', default: '1', deprecated: '8.3' },
+    'assert.bail': { type: 'boolean', default: '0', deprecated: '8.3' },
+    'assert.callback': { type: 'string', default: '', deprecated: '8.3' },
+    'assert.quiet_eval': { type: 'boolean', default: '0', removed: '8.0' },
+
+    // Mail
+    'SMTP': { type: 'string', default: 'localhost' },
+    'smtp_port': { type: 'integer', default: '25', min: 1, max: 65535 },
+    'sendmail_from': { type: 'string', default: '' },
+    'sendmail_path': { type: 'path', default: '' },
+    'mail.add_x_header': { type: 'boolean', default: '0' },
+    'mail.log': { type: 'path', default: '' },
+    'mail.mixed_lf_and_crlf': { type: 'boolean', default: '0', since: '8.2.4' },
+
+    // mbstring and iconv (the encoding directives are superseded by default_charset)
+    'mbstring.language': { type: 'string', default: 'neutral' },
+    'mbstring.internal_encoding': { type: 'string', default: '', deprecated: '5.6', replacement: 'default_charset' },
+    'mbstring.http_input': { type: 'string', default: '', deprecated: '5.6', replacement: 'default_charset' },
+    'mbstring.http_output': { type: 'string', default: '', deprecated: '5.6', replacement: 'default_charset' },
+    'mbstring.encoding_translation': { type: 'boolean', default: '0' },
+    'mbstring.detect_order': { type: 'string', default: '' },
+    'mbstring.substitute_character': { type: 'string', default: '' },
+    'mbstring.func_overload': { type: 'integer', default: '0', deprecated: '7.2', removed: '8.0' },
+    'mbstring.strict_detection': { type: 'boolean', default: '0' },
+    'mbstring.regex_retry_limit': { type: 'integer', default: '1000000', since: '7.4' },
+    'mbstring.regex_stack_limit': { type: 'integer', default: '100000', since: '7.3' },
+    'iconv.input_encoding': { type: 'string', default: '', deprecated: '5.6', replacement: 'default_charset' },
+    'iconv.internal_encoding': { type: 'string', default: '', deprecated: '5.6', replacement: 'default_charset' },
+    'iconv.output_encoding': { type: 'string', default: '', deprecated: '5.6', replacement: 'default_charset' },
+
+    // PCRE
+    'pcre.backtrack_limit': { type: 'integer', default: '1000000', min: 0 },
+    'pcre.recursion_limit': { type: 'integer', default: '100000', min: 0 },
+    'pcre.jit': { type: 'boolean', default: '1', since: '7.0' },
+
+    // OPcache
+    'opcache.enable': { type: 'boolean', default: '1' },
+    'opcache.enable_cli': { type: 'boolean', default: '0' },
+    'opcache.memory_consumption': { type: 'integer', default: '128', min: 8 },
+    'opcache.interned_strings_buffer': { type: 'integer', default: '8', min: 0 },
+    'opcache.max_accelerated_files': { type: 'integer', default: '10000', min: 200, max: 1000000 },
+    'opcache.max_wasted_percentage': { type: 'integer', default: '5', min: 1, max: 50 },
+    'opcache.use_cwd': { type: 'boolean', default: '1' },
+    'opcache.validate_timestamps': { type: 'boolean', default: '1' },
+    'opcache.revalidate_freq': { type: 'integer', default: '2', min: 0 },
+    'opcache.revalidate_path': { type: 'boolean', default: '0' },
+    'opcache.save_comments': { type: 'boolean', default: '1' },
+    'opcache.enable_file_override': { type: 'boolean', default: '0' },
+    'opcache.optimization_level': { type: 'string', default: '0x7FFEBFFF' },
+    'opcache.file_cache': { type: 'path', default: '' },
+    'opcache.file_cache_only': { type: 'boolean', default: '0' },
+    'opcache.huge_code_pages': { type: 'boolean', default: '0' },
+    'opcache.validate_permission': { type: 'boolean', default: '0', since: '7.0' },
+    'opcache.validate_root': { type: 'boolean', default: '0', since: '7.0' },
+    'opcache.preload': { type: 'path', default: '', since: '7.4' },
+    'opcache.preload_user': { type: 'string', default: '', since: '7.4' },
+    'opcache.record_warnings': { type: 'boolean', default: '0', since: '8.0' },
+    'opcache.jit': { type: 'string', default: 'disable', since: '8.0' },
+    'opcache.jit_buffer_size': { type: 'size', default: '0', since: '8.0' },
+    'opcache.fast_shutdown': { type: 'boolean', default: '0', removed: '7.2' },
+    'opcache.load_comments': { type: 'boolean', default: '1', removed: '7.0' },
+    'opcache.inherited_hack': { type: 'boolean', default: '1', removed: '7.3' },
+    'opcache.consistency_checks': { type: 'integer', default: '0', removed: '8.3' },
+
+    // Database extensions
+    'pdo_mysql.default_socket': { type: 'path', default: '' },
+    'mysqli.max_persistent': { type: 'integer', default: '-1', min: -1 },
+    'mysqli.allow_persistent': { type: 'boolean', default: '1' },
+    'mysqli.max_links': { type: 'integer', default: '-1', min: -1 },
+    'mysqli.default_port': { type: 'integer', default: '3306', min: 1, max: 65535 },
+    'mysqli.default_socket': { type: 'path', default: '' },
+    'mysqli.default_host': { type: 'string', default: '' },
+    'mysqli.default_user': { type: 'string', default: '' },
+    'mysqli.default_pw': { type: 'string', default: '' },
+    'mysqli.reconnect': { type: 'boolean', default: '0', removed: '8.2' },
+    'mysqlnd.collect_statistics': { type: 'boolean', default: '1' },
+    'mysqlnd.collect_memory_statistics': { type: 'boolean', default: '0' },
+    'pgsql.allow_persistent': { type: 'boolean', default: '1' },
+    'pgsql.auto_reset_persistent': { type: 'boolean', default: '0' },
+    'pgsql.max_persistent': { type: 'integer', default: '-1', min: -1 },
+    'pgsql.max_links': { type: 'integer', default: '-1', min: -1 },
+    'pgsql.ignore_notice': { type: 'boolean', default: '0' },
+    'pgsql.log_notice': { type: 'boolean', default: '0' },
+    'sqlite3.extension_dir': { type: 'path', default: '' },
+    'sqlite3.defensive': { type: 'boolean', default: '1', since: '7.4' },
+
+    // Other bundled extensions
+    'bcmath.scale': { type: 'integer', default: '0', min: 0 },
+    'intl.default_locale': { type: 'string', default: '' },
+    'intl.error_level': { type: 'integer', default: '0' },
+    'intl.use_exceptions': { type: 'boolean', default: '0' },
+    'soap.wsdl_cache_enabled': { type: 'boolean', default: '1' },
+    'soap.wsdl_cache_dir': { type: 'path', default: '/tmp' },
+    'soap.wsdl_cache_ttl': { type: 'integer', default: '86400', min: 0 },
+    'soap.wsdl_cache_limit': { type: 'integer', default: '5', min: 0 },
+    'ldap.max_links': { type: 'integer', default: '-1', min: -1 },
+    'curl.cainfo': { type: 'path', default: '' },
+    'openssl.cafile': { type: 'path', default: '' },
+    'openssl.capath': { type: 'path', default: '' },
+    'gd.jpeg_ignore_warning': { type: 'boolean', default: '1' },
+    'exif.encode_unicode': { type: 'string', default: 'ISO-8859-15' },
+    'user_ini.filename': { type: 'string', default: '.user.ini' },
+    'user_ini.cache_ttl': { type: 'integer', default: '300', min: 0 },
+    'phar.readonly': { type: 'boolean', default: '1' },
+    'phar.require_hash': { type: 'boolean', default: '1' },
+    'cli_server.color': { type: 'boolean', default: '0' },
+    'ffi.enable': { type: 'enum', default: 'preload', values: ['preload', 'on', 'off', '1', '0', 'true', 'false'], since: '7.4' },
+    'ffi.preload': { type: 'path', default: '', since: '7.4' },
+
+    // Common PECL extensions
+    'apc.enabled': { type: 'boolean', default: '1' },
+    'apc.enable_cli': { type: 'boolean', default: '0' },
+    'apc.shm_size': { type: 'size', default: '32M' },
+    'apc.ttl': { type: 'integer', default: '0', min: 0 },
+    'apc.serializer': { type: 'string', default: 'php' },
+    'pcov.enabled': { type: 'boolean', default: '1' },
+    'pcov.directory': { type: 'path', default: '' },
+    'pcov.exclude': { type: 'string', default: '' },
+    'xdebug.mode': { type: 'string', default: 'develop' },
+    'xdebug.start_with_request': { type: 'enum', default: 'default', values: ['yes', 'no', 'trigger', 'default'] },
+    'xdebug.client_host': { type: 'string', default: 'localhost' },
+    'xdebug.client_port': { type: 'integer', default: '9003', min: 1, max: 65535 },
+    'xdebug.idekey': { type: 'string', default: '' },
+    'xdebug.log': { type: 'path', default: '' },
+    'xdebug.output_dir': { type: 'path', default: '/tmp' },
+    'xdebug.discover_client_host': { type: 'boolean', default: '0' },
+    'xdebug.max_nesting_level': { type: 'integer', default: '512', min: 1 },
+    'xdebug.profiler_output_name': { type: 'string', default: 'cachegrind.out.%p' },
+    // Xdebug 2 names (replaced by xdebug.mode and the client_* settings in Xdebug 3)
+    'xdebug.remote_enable': { type: 'boolean', default: '0' },
+    'xdebug.remote_autostart': { type: 'boolean', default: '0' },
+    'xdebug.remote_host': { type: 'string', default: 'localhost' },
+    'xdebug.remote_port': { type: 'integer', default: '9000', min: 1, max: 65535 },
+    'xdebug.profiler_enable': { type: 'boolean', default: '0' },
+    'xdebug.profiler_output_dir': { type: 'path', default: '/tmp' },
+    'xdebug.coverage_enable': { type: 'boolean', default: '1' },
+    'redis.session.locking_enabled': { type: 'boolean', default: '0' },
+    'swoole.use_shortname': { type: 'string', default: 'On' }
+};
+
+// Only misspellings this close to a known directive get a "did you mean" suggestion
+const MAX_SUGGESTION_DISTANCE = 3;
+
+/**
+ * Computes the Levenshtein distance between two strings
+ */
+function editDistance(a: string, b: string): number {
+    const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+    for (let i = 1; i <= a.length; i++) {
+        let diagonal = previous[0];
+        previous[0] = i;
+        for (let j = 1; j <= b.length; j++) {
+            const above = previous[j];
+            previous[j] = Math.min(
+                previous[j] + 1,
+                previous[j - 1] + 1,
+                diagonal + (a[i - 1] === b[j - 1] ? 0 : 1)
+            );
+            diagonal = above;
+        }
+    }
+
+    return previous[b.length];
+}
+
+/**
+ * Looks up a directive. Keys are case-sensitive in PHP except for a few legacy ones,
+ * so lookups try the exact key first and a lowercase match second.
+ */
+export function getDirectiveDefinition(key: string): DirectiveDefinition | undefined {
+    if (DIRECTIVE_CATALOGUE[key]) return DIRECTIVE_CATALOGUE[key];
+
+    const lower = key.toLowerCase();
+    const match = Object.keys(DIRECTIVE_CATALOGUE).find(known => known.toLowerCase() === lower);
+    return match ? DIRECTIVE_CATALOGUE[match] : undefined;
+}
+
+/**
+ * Suggests the closest known directive for a misspelled key
+ */
+export function suggestDirective(key: string): string | undefined {
+    let best: string | undefined;
+    let bestDistance = MAX_SUGGESTION_DISTANCE + 1;
+
+    for (const known of Object.keys(DIRECTIVE_CATALOGUE)) {
+        const distance = editDistance(key.toLowerCase(), known.toLowerCase());
+        if (distance < bestDistance) {
+            best = known;
+            bestDistance = distance;
+        }
+    }
+
+    return best;
+}
+
+/**
+ * Removes error levels that a PHP version deprecates from an error_reporting expression,
+ * e.g. "E_ALL & ~E_DEPRECATED & ~E_STRICT" becomes "E_ALL & ~E_DEPRECATED" on PHP 8.4.
+ */
+export function translateErrorReporting(value: string, phpVersion: string): string {
+    if (!phpVersion || compareVersions(phpVersion, '8.4') < 0) return value;
+
+    return value
+        .replace(/\s*[&|^]\s*~?\s*E_STRICT\b/g, '')
+        .replace(/^\s*~?\s*E_STRICT\s*[&|^]\s*/, '')
+        .trim() || 'E_ALL';
+}
+
+/**
+ * Checks a directive against the catalogue for a PHP version.
+ *
+ * Directives that do not exist yet or no longer exist are skipped, deprecated ones are
+ * translated to their replacement (or skipped when there is none), and unknown keys are
+ * reported with the closest known directive.
+ *
+ * @param key - Directive name, e.g. 'opcache.fast_shutdown'.
+ * @param value - Value to write.
+ * @param phpVersion - Target PHP version; version checks are skipped when empty.
+ */
+export function checkDirective(key: string, value: string | number, phpVersion: string = ''): DirectiveCheck {
+    const definition = getDirectiveDefinition(key);
+
+    if (!definition) {
+        const suggestion = suggestDirective(key);
+        return {
+            key,
+            value,
+            status: 'unknown',
+            suggestion,
+            message: suggestion ? `Unknown directive ${key} (did you mean ${suggestion}?)` : `Unknown directive ${key}`
+        };
+    }
+
+    if (!phpVersion) {
+        return { key, value, status: 'ok' };
+    }
+
+    if (definition.since && compareVersions(phpVersion, definition.since) < 0) {
+        return { key, value, status: 'skipped', message: `${key} requires PHP ${definition.since}+` };
+    }
+
+    const removed = definition.removed && compareVersions(phpVersion, definition.removed) >= 0;
+    const deprecated = definition.deprecated && compareVersions(phpVersion, definition.deprecated) >= 0;
+
+    if (removed || deprecated) {
+        const state = removed ? `removed in PHP ${definition.removed}` : `deprecated since PHP ${definition.deprecated}`;
+        if (definition.replacement) {
+            return {
+                key,
+                value,
+                status: 'translated',
+                targetKey: definition.replacement,
+                targetValue: value,
+                message: `${key} is ${state}, using ${definition.replacement} instead`
+            };
+        }
+        return { key, value, status: 'skipped', message: `${key} is ${state}` };
+    }
+
+    if (definition.type === 'error-level') {
+        const translated = translateErrorReporting(String(value), phpVersion);
+        if (translated !== String(value)) {
+            return {
+                key,
+                value,
+                status: 'translated',
+                targetKey: key,
+                targetValue: translated,
+                message: `E_STRICT is deprecated since PHP 8.4, using "${translated}"`
+            };
+        }
+    }
+
+    return { key, value, status: 'ok' };
+}
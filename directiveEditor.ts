@@ -0,0 +1,306 @@
+import { createBackup } from './backupManager';
+import { verifyEffectiveConfiguration, VerificationResult } from './configVerification';
+import { checkDirective, DirectiveCheck, getDirectiveDefinition } from './directiveCatalogue';
+import { isWritable, readFileWithSudo } from './fileUtils';
+import { createUnifiedDiff } from './iniDiff';
+import {
+    commentOutDirective,
+    findDirectiveLines,
+    getDirectiveValue,
+    IniDocument,
+    parseIniDocument,
+    serializeIniDocument,
+    setDirective
+} from './iniDocument';
+import { applyIniTransaction } from './iniTransaction';
+import { validateSettings, ValidationResult } from './iniValidation';
+import { PhpInstallation } from './phpEnvironmentUtils';
+import { displayChanges, displayDiff, displayValidation, displayVerification, IniChange } from './phpIniManager';
+import { getEffectiveIniValues } from './phpRuntime';
+
+// ANSI color codes for consistent styling
+const colors = {
+    reset: '\x1b[0m',
+    bright: '\x1b[1m',
+    red: '\x1b[31m',
+    green: '\x1b[32m',
+    yellow: '\x1b[33m',
+    blue: '\x1b[34m',
+    cyan: '\x1b[36m',
+    white: '\x1b[37m'
+};
+
+/**
+ * A directive as php.ini has it and as the running configuration has it
+ */
+export interface DirectiveReading {
+    key: string;
+    fileValue?: string;             // Last active value in php.ini; unset when php.ini does not set it
+    line?: number;                  // 1-based line of that value
+    runtimeValue?: string | null;   // ini_get(); null when PHP does not know the directive, unset when PHP could not be run
+    overridden: boolean;            // Another configuration file sets a different value
+}
+
+export interface DirectiveEditOptions {
+    useSudo?: boolean;
+    dryRun?: boolean;               // Print the diff without writing
+    force?: boolean;                // Write directives that are not in the catalogue
+    backupDir?: string;             // Central backup store instead of the php.ini directory
+}
+
+export interface DirectiveEditResult {
+    iniPath: string;
+    written: boolean;
+    rolledBack: boolean;            // The change broke PHP startup and was reverted
+    changes: IniChange[];
+    rejected: DirectiveCheck[];     // Unknown or unsupported directives; nothing is written when set
+    validation: ValidationResult;   // Nothing is written when validation fails
+    verification?: VerificationResult;
+}
+
+// Marks lines commented out by `pia unset`
+const UNSET_NOTE = 'Disabled by pia unset';
+
+/**
+ * Parses key=value arguments, e.g. ['memory_limit=1G', 'date.timezone=UTC']
+ *
+ * @throws If an argument has no '=' or an empty key.
+ */
+export function parseDirectiveAssignments(args: string[]): Record<string, string> {
+    const settings: Record<string, string> = {};
+    for (const arg of args) {
+        const index = arg.indexOf('=');
+        const key = index > 0 ? arg.substring(0, index).trim() : '';
+        if (!key) {
+            throw new Error(`Expected key=value, got "${arg}"`);
+        }
+        settings[key] = arg.substring(index + 1).trim();
+    }
+    return settings;
+}
+
+/**
+ * Reads directives from the installation's php.ini and asks PHP for their effective values
+ *
+ * @param installation - Installation whose php.ini is read.
+ * @param keys - Directive names.
+ * @param useSudo - Read php.ini with sudo.
+ */
+export async function readDirectives(installation: PhpInstallation, keys: string[], useSudo: boolean = false): Promise<DirectiveReading[]> {
+    const doc = parseIniDocument(await readFileWithSudo(installation.iniPath, useSudo));
+    const readings: DirectiveReading[] = keys.map(key => {
+        const indexes = findDirectiveLines(doc, key);
+        const index = indexes[indexes.length - 1];
+        return index !== undefined ? { key, fileValue: doc.lines[index].value, line: index + 1, overridden: false } : { key, overridden: false };
+    });
+
+    const values = getEffectiveIniValues(
+        installation.phpExecutable,
+        Object.fromEntries(readings.map(reading => [reading.key, reading.fileValue ?? ''])),
+        ['-c', installation.iniPath]
+    );
+    for (const reading of readings) {
+        const value = values[reading.key];
+        if (!value) continue;
+        reading.runtimeValue = value.effective;
+        // Compared with the value as PHP parses it from php.ini (On -> "1")
+        reading.overridden = reading.fileValue !== undefined && value.effective !== null && value.effective !== value.expected;
+    }
+    return readings;
+}
+
+/**
+ * Writes an edited php.ini: dry-run diff, or backup, startup-checked transaction and a check
+ * of the effective values
+ */
+async function applyDirectiveEdit(
+    installation: PhpInstallation,
+    content: string,
+    doc: IniDocument,
+    result: DirectiveEditResult,
+    reason: string,
+    expected: Record<string, string>,
+    options: DirectiveEditOptions
+): Promise<DirectiveEditResult> {
+    const updatedContent = serializeIniDocument(doc);
+    if (updatedContent === content) {
+        console.log(`${colors.green}✅ php.ini is already up to date${colors.reset}`);
+        return result;
+    }
+
+    if (options.dryRun) {
+        console.log(`\n${colors.bright}🔍 Dry run - no files were modified${colors.reset}`);
+        displayDiff(createUnifiedDiff(content, updatedContent, `${installation.iniPath} (current)`, `${installation.iniPath} (updated)`));
+        console.log(`\n${colors.bright}📝 Planned changes (${result.changes.length}):${colors.reset}`);
+        displayChanges(result.changes);
+        return result;
+    }
+
+    const useSudo = !!options.useSudo || (process.platform !== 'win32' && !isWritable(installation.iniPath));
+    await createBackup(installation.iniPath, useSudo, {
+        installation: installation.environment,
+        phpVersion: installation.version,
+        phpExecutable: installation.phpExecutable,
+        reason,
+        storeDir: options.backupDir
+    });
+
+    const iniArgs = ['-c', installation.iniPath];
+    const transaction = await applyIniTransaction(installation.iniPath, content, updatedContent, {
+        useSudo,
+        phpExecutable: installation.phpExecutable,
+        iniArgs
+    });
+    result.written = transaction.committed;
+    result.rolledBack = transaction.rolledBack;
+    if (!transaction.committed) return result;
+
+    console.log(`\n${colors.bright}📝 Changes in ${installation.iniPath}:${colors.reset}`);
+    displayChanges(result.changes);
+    if (Object.keys(expected).length > 0) {
+        result.verification = verifyEffectiveConfiguration(installation.phpExecutable, { settings: expected, loaded: [], notLoaded: [] }, iniArgs);
+        displayVerification(result.verification);
+    }
+    return result;
+}
+
+/**
+ * Sets directives in the installation's php.ini. Directives are checked against the catalogue
+ * for the installation's PHP version (deprecated ones are translated, unknown ones refused
+ * unless forced) and validated together with the current values before anything is written.
+ *
+ * @param installation - Installation whose php.ini is changed.
+ * @param settings - Directives and their new values.
+ * @param options - Sudo usage, dry-run mode and the backup store.
+ */
+export async function setDirectives(
+    installation: PhpInstallation,
+    settings: Record<string, string>,
+    options: DirectiveEditOptions = {}
+): Promise<DirectiveEditResult> {
+    const content = await readFileWithSudo(installation.iniPath, !!options.useSudo);
+    const doc = parseIniDocument(content);
+    const result: DirectiveEditResult = {
+        iniPath: installation.iniPath,
+        written: false,
+        rolledBack: false,
+        changes: [],
+        rejected: [],
+        validation: { valid: true, errors: [], warnings: [] }
+    };
+
+    // Directive names and values as they will be written for this PHP version
+    const applied: Record<string, string> = {};
+    for (const [key, value] of Object.entries(settings)) {
+        const check = checkDirective(key, value, installation.version);
+        if (check.status === 'skipped' || (check.status === 'unknown' && !options.force)) {
+            console.log(`${colors.red}❌ ${check.message}${colors.reset}`);
+            result.rejected.push(check);
+            continue;
+        }
+        if (check.status === 'translated') {
+            console.log(`${colors.cyan}🔁 ${check.message}${colors.reset}`);
+        } else if (check.status === 'unknown') {
+            console.log(`${colors.yellow}⚠️  ${check.message}, writing it anyway (--force)${colors.reset}`);
+        }
+        applied[check.targetKey || key] = String(check.targetValue ?? value);
+    }
+    if (result.rejected.length > 0) {
+        const hint = result.rejected.some(check => check.status === 'unknown') ? ' (use --force to write unknown directives)' : '';
+        console.log(`${colors.red}❌ php.ini was not modified${hint}${colors.reset}`);
+        return result;
+    }
+
+    result.validation = validateSettings(applied, key => getDirectiveValue(doc, key));
+    displayValidation(result.validation);
+    if (!result.validation.valid) {
+        console.log(`${colors.red}❌ ${result.validation.errors.length} invalid setting(s), php.ini was not modified${colors.reset}`);
+        return result;
+    }
+
+    for (const [key, value] of Object.entries(applied)) {
+        const before = getDirectiveValue(doc, key);
+        const outcome = setDirective(doc, key, value);
+        if (outcome === 'updated') {
+            result.changes.push({ type: 'setting-updated', name: key, before, after: value, reason: 'pia set' });
+        } else if (outcome === 'added') {
+            result.changes.push({ type: 'setting-added', name: key, after: value, reason: 'pia set' });
+        }
+    }
+
+    const summary = Object.entries(applied).map(([key, value]) => `${key}=${value}`).join(', ');
+    return applyDirectiveEdit(installation, content, doc, result, `pia set: ${summary}`, applied, options);
+}
+
+/**
+ * Comments out directives in the installation's php.ini, so PHP falls back to its default
+ * or to a value from another configuration file
+ *
+ * @param installation - Installation whose php.ini is changed.
+ * @param keys - Directive names.
+ * @param options - Sudo usage, dry-run mode and the backup store.
+ */
+export async function unsetDirectives(
+    installation: PhpInstallation,
+    keys: string[],
+    options: DirectiveEditOptions = {}
+): Promise<DirectiveEditResult> {
+    const content = await readFileWithSudo(installation.iniPath, !!options.useSudo);
+    const doc = parseIniDocument(content);
+    const result: DirectiveEditResult = {
+        iniPath: installation.iniPath,
+        written: false,
+        rolledBack: false,
+        changes: [],
+        rejected: [],
+        validation: { valid: true, errors: [], warnings: [] }
+    };
+
+    // Without the line PHP uses its default, which can break rules such as upload_max_filesize <= post_max_size
+    const defaults: Record<string, string> = {};
+    for (const key of keys) {
+        const defaultValue = getDirectiveDefinition(key)?.default;
+        if (defaultValue !== undefined && getDirectiveValue(doc, key) !== undefined) defaults[key] = defaultValue;
+    }
+    result.validation = validateSettings(defaults, key => getDirectiveValue(doc, key));
+    displayValidation(result.validation);
+    if (!result.validation.valid) {
+        console.log(`${colors.red}❌ Falling back to the default would be invalid, php.ini was not modified${colors.reset}`);
+        return result;
+    }
+
+    for (const key of keys) {
+        const before = getDirectiveValue(doc, key);
+        if (commentOutDirective(doc, key, UNSET_NOTE) > 0) {
+            result.changes.push({ type: 'setting-removed', name: key, before, after: defaults[key] ?? '(default)', reason: 'pia unset' });
+        } else {
+            console.log(`${colors.yellow}⚠️  ${key} is not set in ${installation.iniPath}${colors.reset}`);
+        }
+    }
+
+    const removed = result.changes.map(change => change.name);
+    return applyDirectiveEdit(installation, content, doc, result, `pia unset: ${removed.join(', ')}`, {}, options);
+}
+
+/**
+ * Prints directive readings, flagging values that another configuration file overrides
+ */
+export function displayDirectiveReadings(readings: DirectiveReading[]): void {
+    for (const reading of readings) {
+        const file = reading.fileValue !== undefined ?
+            `${reading.fileValue || '""'} ${colors.white}(php.ini line ${reading.line})${colors.reset}` :
+            `${colors.white}not set in php.ini${colors.reset}`;
+        console.log(`${colors.bright}${reading.key}${colors.reset}`);
+        console.log(`   📄 File:    ${file}`);
+
+        if (reading.runtimeValue === undefined) {
+            console.log(`   ⚡ Runtime: ${colors.yellow}unknown (PHP could not be run)${colors.reset}`);
+        } else if (reading.runtimeValue === null) {
+            console.log(`   ⚡ Runtime: ${colors.yellow}not a directive of this PHP (unknown, or its extension is not loaded)${colors.reset}`);
+        } else if (reading.overridden) {
+            console.log(`   ⚡ Runtime: ${colors.red}${reading.runtimeValue || '""'} (overridden by another configuration file, see php --ini)${colors.reset}`);
+        } else {
+            console.log(`   ⚡ Runtime: ${colors.green}${reading.runtimeValue || '""'}${colors.reset}`);
+        }
+    }
+}
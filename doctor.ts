@@ -0,0 +1,320 @@
+import { spawnSync } from 'child_process';
+import fs from 'fs-extra';
+import path from 'path';
+import { checkDirective } from './directiveCatalogue';
+import { findExtensionConflicts } from './extensionConflicts';
+import { isWritable } from './fileUtils';
+import { IniDocument, parseIniDocument } from './iniDocument';
+import { getPhpIniScanDirs, PhpInstallation, validatePhpInstallation } from './phpEnvironmentUtils';
+import { checkPhpStartup, getEffectiveIniValues, getExtensionsLoaded, runPhp, StartupIssue } from './phpRuntime';
+import { ResolvedProfile } from './profiles';
+
+// ANSI color codes for consistent styling
+const colors = {
+    reset: '\x1b[0m',
+    bright: '\x1b[1m',
+    red: '\x1b[31m',
+    green: '\x1b[32m',
+    yellow: '\x1b[33m',
+    blue: '\x1b[34m',
+    cyan: '\x1b[36m',
+    white: '\x1b[37m'
+};
+
+export type DoctorSeverity = 'error' | 'warning' | 'info';
+
+export type DoctorCheck = 'installation' | 'ini-layout' | 'startup' | 'extensions' | 'directives' | 'permissions' | 'path';
+
+/**
+ * One problem found by `pia doctor`
+ */
+export interface DoctorFinding {
+    severity: DoctorSeverity;
+    check: DoctorCheck;
+    installation?: string;      // "PHP 8.3.12 (System PATH)"; unset for findings about the whole system
+    message: string;
+    fix?: string;               // What to do about it
+}
+
+export interface DoctorInstallationSummary {
+    label: string;
+    version: string;
+    environment: string;
+    phpExecutable: string;
+    iniPath: string;
+    scanDirs: string[];
+    selected: boolean;          // The installation `pia` configures by default
+}
+
+export interface DoctorReport {
+    installations: DoctorInstallationSummary[];
+    findings: DoctorFinding[];
+    counts: Record<DoctorSeverity, number>;
+}
+
+// Directives naming paths PHP has to write to at runtime
+const WRITABLE_DIRECTIVES = ['error_log', 'session.save_path', 'upload_tmp_dir'];
+
+const SEVERITY_ORDER: DoctorSeverity[] = ['error', 'warning', 'info'];
+
+/**
+ * Labels an installation for the report
+ */
+function installationLabel(installation: PhpInstallation): string {
+    return `PHP ${installation.version} (${installation.environment})`;
+}
+
+/**
+ * Finds the php binary the shell runs, resolving symlinks such as /usr/bin/php -> php8.3
+ */
+export function findPathPhp(): string | null {
+    const result = process.platform === 'win32' ?
+        spawnSync('where', ['php'], { encoding: 'utf8', timeout: 5000 }) :
+        spawnSync('which', ['php'], { encoding: 'utf8', timeout: 5000 });
+    const first = (result.stdout || '').split(/\r?\n/)[0]?.trim();
+    if (result.status !== 0 || !first) return null;
+
+    try {
+        return fs.realpathSync(first);
+    } catch {
+        return first;
+    }
+}
+
+/**
+ * Maps a startup issue to a finding with a fix hint
+ */
+function startupFinding(issue: StartupIssue, label: string): DoctorFinding {
+    switch (issue.type) {
+        case 'unable-to-load':
+            return { severity: 'error', check: 'startup', installation: label, message: issue.message, fix: `Install the ${issue.extension} package or run pia to comment out the extension line` };
+        case 'already-loaded':
+            return { severity: 'warning', check: 'startup', installation: label, message: issue.message, fix: `Remove the duplicate extension=${issue.extension} line (it is loaded by another .ini file)` };
+        case 'parse-error':
+            return { severity: 'error', check: 'startup', installation: label, message: issue.message, fix: 'Fix the syntax error in the named .ini file, or restore a backup with pia restore' };
+        case 'fatal':
+            return { severity: 'error', check: 'startup', installation: label, message: issue.message, fix: 'PHP does not start; restore a working configuration with pia restore' };
+        default:
+            return { severity: 'warning', check: 'startup', installation: label, message: issue.message };
+    }
+}
+
+/**
+ * Lists the .ini files PHP reads for an installation: php.ini and the scan directories
+ */
+function readIniFiles(installation: PhpInstallation, scanDirs: string[]): { file: string; doc: IniDocument }[] {
+    const files = [installation.iniPath, ...scanDirs.flatMap(dir => fs.existsSync(dir) ?
+        fs.readdirSync(dir).filter(name => name.endsWith('.ini')).sort().map(name => path.join(dir, name)) :
+        [])];
+
+    return files.filter(file => file && fs.existsSync(file)).flatMap(file => {
+        try {
+            return [{ file, doc: parseIniDocument(fs.readFileSync(file, 'utf8')) }];
+        } catch {
+            return []; // Unreadable without sudo; startup errors still cover it
+        }
+    });
+}
+
+/**
+ * Checks directives in the .ini files against the directive catalogue for the installed version
+ */
+function checkDeprecatedDirectives(installation: PhpInstallation, scanDirs: string[], label: string): DoctorFinding[] {
+    const findings: DoctorFinding[] = [];
+
+    for (const { file, doc } of readIniFiles(installation, scanDirs)) {
+        for (const line of doc.lines) {
+            if (line.type !== 'directive' || line.commented || /^(zend_)?extension$/i.test(line.key!)) continue;
+
+            const check = checkDirective(line.key!, line.value || '', installation.version);
+            if (check.status !== 'skipped' && check.status !== 'translated') continue;
+
+            findings.push({
+                severity: 'warning',
+                check: 'directives',
+                installation: label,
+                message: `${file}: ${check.message}`,
+                fix: check.status === 'translated' ?
+                    `Replace it with ${check.targetKey} = ${check.targetValue}` :
+                    `Remove the ${line.key} line`
+            });
+        }
+    }
+    return findings;
+}
+
+/**
+ * Gets the directory a path directive needs to write to: session.save_path may carry
+ * "N;MODE;" prefixes and error_log names a file
+ */
+function writableTarget(key: string, value: string): string | null {
+    if (!value || value === 'syslog') return null;
+    if (key === 'session.save_path') return value.split(';').pop() || null;
+    if (key === 'error_log') return fs.existsSync(value) ? value : path.dirname(value);
+    return value;
+}
+
+/**
+ * Checks one installation and returns its findings
+ *
+ * @param installation - Installation to check.
+ * @param profile - Profile whose essential extensions are required.
+ */
+export function diagnoseInstallation(installation: PhpInstallation, profile: ResolvedProfile): DoctorFinding[] {
+    const label = installationLabel(installation);
+    const findings: DoctorFinding[] = [];
+
+    // Missing binary, php.ini or extension_dir
+    const validation = validatePhpInstallation(installation, true);
+    validation.issues.forEach((issue, index) => {
+        findings.push({ severity: 'error', check: 'installation', installation: label, message: issue, fix: validation.suggestions[index] });
+    });
+    if (!installation.phpExecutable || !fs.existsSync(installation.phpExecutable)) {
+        return findings;
+    }
+    if (validation.needsSudo) {
+        findings.push({ severity: 'info', check: 'permissions', installation: label, message: `${installation.iniPath} is not writable by the current user`, fix: 'pia uses sudo to write it' });
+    }
+
+    // ini and scan directory layout as PHP sees it
+    const ini = runPhp(installation.phpExecutable, ['--ini']).stdout;
+    const loaded = ini.match(/Loaded Configuration File:\s*(.+)/)?.[1]?.trim();
+    const scanDirs = getPhpIniScanDirs(installation.phpExecutable);
+    if (loaded === '(none)') {
+        findings.push({ severity: 'error', check: 'ini-layout', installation: label, message: 'PHP runs without a php.ini', fix: `Copy php.ini-development to ${installation.iniPath || 'the directory PHP looks in (php --ini)'}` });
+    } else if (loaded && installation.iniPath && path.resolve(loaded) !== path.resolve(installation.iniPath)) {
+        findings.push({ severity: 'warning', check: 'ini-layout', installation: label, message: `PHP loads ${loaded}, not the detected ${installation.iniPath}`, fix: 'Check PHPRC and the -c option of whatever starts PHP' });
+    }
+    scanDirs.filter(dir => !fs.existsSync(dir)).forEach(dir => {
+        findings.push({ severity: 'warning', check: 'ini-layout', installation: label, message: `Scan directory ${dir} does not exist`, fix: `Create it or fix PHP_INI_SCAN_DIR` });
+    });
+    if (scanDirs.length === 0) {
+        findings.push({ severity: 'info', check: 'ini-layout', installation: label, message: 'PHP scans no directory for additional .ini files', fix: 'Drop-in mode (--mode drop-in) is not available; pia edits php.ini directly' });
+    }
+
+    // Startup warnings and errors with the effective configuration
+    const startup = checkPhpStartup(installation.phpExecutable);
+    startup.issues.forEach(issue => findings.push(startupFinding(issue, label)));
+
+    // Extensions the profile requires, and known conflicts among the loaded ones
+    const extensionState = getExtensionsLoaded(installation.phpExecutable, profile.essentialExtensions);
+    const missing = profile.essentialExtensions.filter(extension => extensionState[extension] === false);
+    if (missing.length > 0) {
+        findings.push({ severity: 'warning', check: 'extensions', installation: label, message: `Required by the ${profile.name} profile but not loaded: ${missing.join(', ')}`, fix: `pia ext install ${missing.join(' ')} --installation ${installation.version}` });
+    }
+    const modules = runPhp(installation.phpExecutable, ['-m']).stdout.split('\n').map(line => line.trim()).filter(line => line && !line.startsWith('['));
+    for (const [a, b] of findExtensionConflicts(modules)) {
+        findings.push({ severity: 'warning', check: 'extensions', installation: label, message: `${a} and ${b} are loaded together and conflict`, fix: `Disable one of them; pia keeps the one the profile prefers` });
+    }
+
+    findings.push(...checkDeprecatedDirectives(installation, scanDirs, label));
+
+    // Paths PHP writes to at runtime
+    const values = getEffectiveIniValues(installation.phpExecutable, Object.fromEntries(WRITABLE_DIRECTIVES.map(key => [key, ''])));
+    for (const key of WRITABLE_DIRECTIVES) {
+        const value = values[key]?.effective || '';
+        const target = writableTarget(key, value);
+        if (!target) continue;
+        if (!fs.existsSync(target)) {
+            findings.push({ severity: 'warning', check: 'permissions', installation: label, message: `${key} = ${value}: ${target} does not exist`, fix: `Create ${target} or change ${key}` });
+        } else if (!isWritable(target)) {
+            findings.push({ severity: 'warning', check: 'permissions', installation: label, message: `${key} (${target}) is not writable by the current user`, fix: `Make ${target} writable for the user PHP runs as, or change ${key}` });
+        }
+    }
+
+    return findings;
+}
+
+/**
+ * Checks every installation and whether the PHP on the PATH is the one `pia` configures.
+ *
+ * @param installations - Installations to check (from scanPhpInstallations).
+ * @param selected - The installation `pia` configures by default.
+ * @param profile - Profile whose essential extensions are required.
+ * @param pathPhp - The php binary on the PATH (detected by default).
+ */
+export function runDoctor(
+    installations: PhpInstallation[],
+    selected: PhpInstallation | null,
+    profile: ResolvedProfile,
+    pathPhp: string | null = findPathPhp()
+): DoctorReport {
+    const findings: DoctorFinding[] = [];
+
+    if (installations.length === 0) {
+        findings.push({ severity: 'error', check: 'installation', message: 'No PHP installations found', fix: 'Install PHP or set PHP_PATH to your installation' });
+    }
+    for (const installation of installations) {
+        findings.push(...diagnoseInstallation(installation, profile));
+    }
+
+    if (!pathPhp) {
+        findings.push({ severity: 'warning', check: 'path', message: 'No php on the PATH', fix: selected ? `Add ${path.dirname(selected.phpExecutable)} to the PATH` : undefined });
+    } else if (selected) {
+        const resolve = (file: string) => fs.existsSync(file) ? fs.realpathSync(file) : file;
+        if (resolve(pathPhp) !== resolve(selected.phpExecutable)) {
+            const pathInstallation = installations.find(installation => resolve(installation.phpExecutable) === resolve(pathPhp));
+            findings.push({
+                severity: 'warning',
+                check: 'path',
+                message: `php on the PATH is ${pathPhp}${pathInstallation ? ` (PHP ${pathInstallation.version})` : ''}, but pia configures ${selected.phpExecutable} (PHP ${selected.version})`,
+                fix: process.platform === 'linux' ?
+                    `sudo update-alternatives --set php ${selected.phpExecutable}, or pass --installation to pia` :
+                    `Put ${path.dirname(selected.phpExecutable)} first on the PATH, or pass --installation to pia`
+            });
+        }
+    }
+
+    const counts: Record<DoctorSeverity, number> = { error: 0, warning: 0, info: 0 };
+    findings.forEach(finding => counts[finding.severity]++);
+
+    return {
+        installations: installations.map(installation => ({
+            label: installationLabel(installation),
+            version: installation.version,
+            environment: installation.environment,
+            phpExecutable: installation.phpExecutable,
+            iniPath: installation.iniPath,
+            scanDirs: installation.scanDir ? [installation.scanDir] : [],
+            selected: installation === selected
+        })),
+        findings: SEVERITY_ORDER.flatMap(severity => findings.filter(finding => finding.severity === severity)),
+        counts
+    };
+}
+
+/**
+ * Prints the report grouped by severity
+ */
+export function displayDoctorReport(report: DoctorReport): void {
+    console.log(`${colors.bright}🩺 PHP environment report${colors.reset}\n`);
+    report.installations.forEach(installation => {
+        const marker = installation.selected ? ` ${colors.green}(configured by pia)${colors.reset}` : '';
+        console.log(`   • ${installation.label}${marker} ${colors.white}${installation.phpExecutable}${colors.reset}`);
+    });
+
+    const headings: Record<DoctorSeverity, string> = {
+        error: `${colors.red}${colors.bright}❌ Errors`,
+        warning: `${colors.yellow}${colors.bright}⚠️  Warnings`,
+        info: `${colors.cyan}${colors.bright}ℹ️  Notes`
+    };
+
+    for (const severity of SEVERITY_ORDER) {
+        const findings = report.findings.filter(finding => finding.severity === severity);
+        if (findings.length === 0) continue;
+
+        console.log(`\n${headings[severity]} (${findings.length})${colors.reset}`);
+        for (const finding of findings) {
+            const prefix = finding.installation ? `${finding.installation}: ` : '';
+            console.log(`   • ${prefix}${finding.message}`);
+            if (finding.fix) {
+                console.log(`     ${colors.green}💡 ${finding.fix}${colors.reset}`);
+            }
+        }
+    }
+
+    if (report.findings.length === 0) {
+        console.log(`\n${colors.green}✅ No problems found${colors.reset}`);
+    }
+    console.log(`\n${colors.bright}📊 ${report.counts.error} error(s), ${report.counts.warning} warning(s), ${report.counts.info} note(s)${colors.reset}\n`);
+}
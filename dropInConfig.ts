@@ -0,0 +1,102 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { getDirectiveValue, getEnabledExtensions, parseIniDocument } from './iniDocument';
+
+export type ConfigMode = 'inplace' | 'drop-in';
+
+export const CONFIG_MODES: ConfigMode[] = ['inplace', 'drop-in'];
+
+// Sorts after the distribution's NN-name.ini files, so its values win
+export const DROP_IN_FILE_NAME = '99-pia.ini';
+
+/**
+ * A directive or extension that another file in the scan directory also sets
+ */
+export interface DropInConflict {
+    directive: string;          // Directive key, or 'extension:<name>' for extension lines
+    file: string;               // The other conf.d file
+    value: string;              // Value in the other file
+    managedValue: string;       // Value in the managed drop-in file
+    overridesManaged: boolean;  // The other file is loaded after ours, so its value wins
+}
+
+/**
+ * Gets the path of the managed drop-in file in a scan directory
+ */
+export function getDropInPath(scanDir: string): string {
+    return path.join(scanDir, DROP_IN_FILE_NAME);
+}
+
+/**
+ * Creates the initial content of the managed drop-in file
+ */
+export function createDropInContent(eol: string = '\n'): string {
+    return [
+        '; Managed by php-ini-automation (pia).',
+        '; Loaded after the other files in this directory; run pia again instead of editing by hand.',
+        '',
+        ''
+    ].join(eol);
+}
+
+/**
+ * Lists the .ini files PHP loads from a scan directory, in load order (alphabetical)
+ */
+export function listScanDirFiles(scanDir: string): string[] {
+    if (!fs.existsSync(scanDir)) return [];
+
+    return fs.readdirSync(scanDir)
+        .filter(fileName => fileName.endsWith('.ini'))
+        .sort()
+        .map(fileName => path.join(scanDir, fileName));
+}
+
+/**
+ * Detects values set by other files in the scan directory that differ from the managed
+ * drop-in file, and extensions that other files already load.
+ *
+ * @param scanDir - The conf.d directory.
+ * @param managedContent - Content of the managed drop-in file.
+ */
+export function findDropInConflicts(scanDir: string, managedContent: string): DropInConflict[] {
+    const managed = parseIniDocument(managedContent);
+    const conflicts: DropInConflict[] = [];
+
+    // Active directives and extensions of the managed file
+    const managedExtensions = getEnabledExtensions(managed);
+    const managedDirectives = new Map<string, string>();
+    for (const line of managed.lines) {
+        if (line.type !== 'directive' || line.commented || !line.key) continue;
+        if (line.key !== 'extension' && line.key !== 'zend_extension') {
+            managedDirectives.set(line.key, getDirectiveValue(managed, line.key) || '');
+        }
+    }
+
+    for (const file of listScanDirFiles(scanDir)) {
+        if (path.basename(file) === DROP_IN_FILE_NAME) continue;
+
+        let doc;
+        try {
+            doc = parseIniDocument(fs.readFileSync(file, 'utf8'));
+        } catch {
+            continue; // Unreadable files are reported by PHP itself
+        }
+        const overridesManaged = path.basename(file) > DROP_IN_FILE_NAME;
+
+        for (const [key, managedValue] of managedDirectives) {
+            const value = getDirectiveValue(doc, key);
+            if (value !== undefined && value.toLowerCase() !== managedValue.toLowerCase()) {
+                conflicts.push({ directive: key, file, value, managedValue, overridesManaged });
+            }
+        }
+
+        // Loading an extension twice makes PHP warn "Module is already loaded"
+        for (const extension of getEnabledExtensions(doc)) {
+            if (managedExtensions.includes(extension)) {
+                conflicts.push({ directive: `extension:${extension}`, file, value: extension, managedValue: extension, overridesManaged: false });
+            }
+        }
+    }
+
+    return conflicts;
+}
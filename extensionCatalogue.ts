@@ -0,0 +1,237 @@
+import type { PackageManagerName } from './packageManagers';
+import { satisfiesVersionConstraint } from './versionConstraint';
+
+/**
+ * What pia knows about a PHP extension
+ */
+export interface ExtensionDefinition {
+    zend?: boolean;                 // Loaded with zend_extension= instead of extension=
+    dependencies?: string[];        // Extensions that must be loaded first
+    loadAfter?: string[];           // Optional extensions that must be loaded first when enabled
+    conflicts?: string[];           // Extensions that break or misbehave when loaded together
+    compiledIn?: string;            // PHP versions that always compile it in (no extension= line possible)
+    builtIn?: boolean;              // Compiled in by most builds, so extension= lines only cause duplicates
+    bundled?: string;               // PHP versions that ship it in php-src (elsewhere it comes from PECL)
+    pecl?: boolean;                 // Only available from PECL
+    packages?: Partial<Record<PackageManagerName, string>>; // Package base name where it differs from the extension
+    windowsDll?: string[];          // DLL file names (default: php_<name>.dll, <name>.dll)
+    moduleName?: string;            // Name reported by `php -m` when it differs
+    aliases?: string[];             // Other spellings, e.g. Composer's ext-zend-opcache
+}
+
+// Debian ships many small extensions in php8.3-common
+const APT_COMMON = { apt: 'common' };
+
+export const EXTENSION_CATALOGUE: Record<string, ExtensionDefinition> = {
+    // Always compiled in
+    core: { compiledIn: '*' },
+    date: { compiledIn: '*' },
+    hash: { compiledIn: '>=7.4' },
+    json: { compiledIn: '>=8.0' },
+    pcre: { compiledIn: '*' },
+    random: { compiledIn: '>=8.2' },
+    reflection: { compiledIn: '*' },
+    spl: { compiledIn: '*' },
+    standard: { compiledIn: '*' },
+
+    // Bundled with PHP
+    bcmath: {},
+    calendar: { packages: { ...APT_COMMON, dnf: 'common' } },
+    ctype: { builtIn: true, packages: { ...APT_COMMON, dnf: 'common' } },
+    curl: { packages: { dnf: 'common' } },
+    dba: {},
+    dom: { packages: { apt: 'xml', dnf: 'xml' } },
+    enchant: { packages: { pacman: 'enchant' } },
+    exif: { builtIn: true, packages: { ...APT_COMMON, dnf: 'common' } },
+    ffi: { bundled: '>=7.4', packages: APT_COMMON },
+    fileinfo: { builtIn: true, packages: { ...APT_COMMON, dnf: 'common' } },
+    filter: {},
+    ftp: { packages: { ...APT_COMMON, dnf: 'common' } },
+    gd: { packages: { pacman: 'gd' } },
+    gettext: { packages: APT_COMMON },
+    gmp: {},
+    iconv: { packages: { ...APT_COMMON, dnf: 'common' } },
+    imap: { bundled: '<8.4' },
+    intl: { packages: { pacman: 'intl' } },
+    ldap: {},
+    mbstring: {},
+    mysqli: { dependencies: ['mysqlnd'], packages: { apt: 'mysql', dnf: 'mysqlnd' } },
+    mysqlnd: { packages: { apt: 'mysql', dnf: 'mysqlnd' } },
+    odbc: { packages: { pacman: 'odbc' } },
+    opcache: { zend: true, moduleName: 'Zend OPcache', aliases: ['zend opcache', 'zend-opcache'] },
+    openssl: { packages: { dnf: 'common' } },
+    pcntl: {},
+    pdo: { packages: { ...APT_COMMON, dnf: 'pdo' } },
+    pdo_mysql: { dependencies: ['pdo', 'mysqlnd'], packages: { apt: 'mysql', dnf: 'mysqlnd' }, aliases: ['pdo-mysql'] },
+    pdo_odbc: { dependencies: ['pdo'], packages: { apt: 'odbc', dnf: 'odbc', pacman: 'odbc' } },
+    pdo_pgsql: { dependencies: ['pdo'], packages: { apt: 'pgsql', dnf: 'pgsql', pacman: 'pgsql' }, aliases: ['pdo-pgsql'] },
+    pdo_sqlite: { dependencies: ['pdo'], packages: { apt: 'sqlite3', dnf: 'pdo', pacman: 'sqlite' }, aliases: ['pdo-sqlite'] },
+    pgsql: { packages: { pacman: 'pgsql' } },
+    phar: { packages: APT_COMMON },
+    posix: { packages: APT_COMMON },
+    pspell: { bundled: '<8.4' },
+    readline: {},
+    session: {},
+    shmop: { packages: APT_COMMON },
+    simplexml: { packages: { apt: 'xml', dnf: 'xml' } },
+    snmp: { packages: { pacman: 'snmp' } },
+    soap: {},
+    sockets: { packages: { ...APT_COMMON, dnf: 'common' } },
+    sodium: { bundled: '>=7.2', packages: { pacman: 'sodium' } },
+    sqlite3: { packages: { dnf: 'pdo', pacman: 'sqlite' } },
+    sysvmsg: { packages: APT_COMMON },
+    sysvsem: { packages: APT_COMMON },
+    sysvshm: { packages: APT_COMMON },
+    tidy: { packages: { pacman: 'tidy' } },
+    tokenizer: { builtIn: true, packages: { ...APT_COMMON, dnf: 'common' } },
+    xml: { packages: { dnf: 'xml' } },
+    xmlreader: { dependencies: ['dom'], packages: { apt: 'xml', dnf: 'xml' } },
+    xmlrpc: { bundled: '<8.0' },
+    xmlwriter: { packages: { apt: 'xml', dnf: 'xml' } },
+    xsl: { dependencies: ['dom'], packages: { apt: 'xml', dnf: 'xml' } },
+    zip: {},
+    zlib: {},
+
+    // PECL
+    amqp: { pecl: true },
+    apcu: { pecl: true },
+    grpc: { pecl: true },
+    gmagick: { pecl: true, conflicts: ['imagick'] },
+    igbinary: { pecl: true },
+    imagick: { pecl: true, conflicts: ['gmagick'] },
+    mailparse: { pecl: true, dependencies: ['mbstring'] },
+    mcrypt: { pecl: true },
+    memcached: { pecl: true, dependencies: ['session'], loadAfter: ['igbinary', 'msgpack'] },
+    mongodb: { pecl: true },
+    msgpack: { pecl: true },
+    openswoole: { pecl: true, dependencies: ['sockets'], conflicts: ['swoole', 'xdebug'] },
+    pcov: { pecl: true, conflicts: ['xdebug'] },
+    protobuf: { pecl: true },
+    redis: { pecl: true, loadAfter: ['igbinary', 'msgpack'] },
+    ssh2: { pecl: true },
+    swoole: { pecl: true, dependencies: ['sockets'], conflicts: ['openswoole', 'xdebug'] },
+    xdebug: { pecl: true, zend: true, loadAfter: ['opcache'], conflicts: ['pcov', 'swoole', 'openswoole'] },
+    yaml: { pecl: true }
+};
+
+/**
+ * Resolves an extension name, `php -m` module name or alias to the catalogue name
+ * ("Zend OPcache" -> "opcache", "ext-pdo-mysql" spelling "pdo-mysql" -> "pdo_mysql")
+ */
+export function resolveExtensionName(name: string): string {
+    const normalized = name.trim().toLowerCase();
+    if (EXTENSION_CATALOGUE[normalized]) return normalized;
+
+    const match = Object.entries(EXTENSION_CATALOGUE).find(([, definition]) =>
+        definition.moduleName?.toLowerCase() === normalized || definition.aliases?.includes(normalized)
+    );
+    return match ? match[0] : normalized;
+}
+
+/**
+ * Gets the catalogue entry of an extension, if it is known
+ */
+export function getExtensionDefinition(name: string): ExtensionDefinition | undefined {
+    return EXTENSION_CATALOGUE[resolveExtensionName(name)];
+}
+
+/**
+ * Gets the module name PHP knows an extension by, as used by extension_loaded()
+ */
+export function getModuleName(name: string): string {
+    const resolved = resolveExtensionName(name);
+    return EXTENSION_CATALOGUE[resolved]?.moduleName || resolved;
+}
+
+/**
+ * Checks whether an extension must be loaded with zend_extension=
+ */
+export function isZendExtension(name: string): boolean {
+    return !!getExtensionDefinition(name)?.zend;
+}
+
+/**
+ * Gets the extensions that load with zend_extension=
+ */
+export function getZendExtensions(): string[] {
+    return Object.keys(EXTENSION_CATALOGUE).filter(name => EXTENSION_CATALOGUE[name].zend);
+}
+
+/**
+ * Checks whether a PHP version always compiles an extension in. Without a version,
+ * any version counts.
+ */
+export function isCompiledIn(name: string, phpVersion: string = ''): boolean {
+    const constraint = getExtensionDefinition(name)?.compiledIn;
+    if (!constraint) return false;
+    return !phpVersion || satisfiesVersionConstraint(phpVersion, constraint);
+}
+
+/**
+ * Checks whether an extension is compiled into PHP, or compiled in by most builds,
+ * so that it should never get its own extension= line
+ */
+export function isBuiltInExtension(name: string, phpVersion: string = ''): boolean {
+    return isCompiledIn(name, phpVersion) || !!getExtensionDefinition(name)?.builtIn;
+}
+
+/**
+ * Gets the extensions marked as compiled in by most builds
+ */
+export function getBuiltInExtensions(): string[] {
+    return Object.keys(EXTENSION_CATALOGUE).filter(name => EXTENSION_CATALOGUE[name].builtIn);
+}
+
+/**
+ * Checks whether an extension comes from PECL for a PHP version (PECL-only extensions, and
+ * bundled ones outside the versions that ship them)
+ */
+export function isPeclExtension(name: string, phpVersion: string = ''): boolean {
+    const definition = getExtensionDefinition(name);
+    if (!definition) return false;
+    if (definition.pecl) return true;
+    return !!definition.bundled && !!phpVersion && !satisfiesVersionConstraint(phpVersion, definition.bundled);
+}
+
+/**
+ * Gets the extensions that must be loaded before an extension
+ */
+export function getExtensionDependencies(name: string): string[] {
+    return getExtensionDefinition(name)?.dependencies || [];
+}
+
+/**
+ * Gets the extensions known to conflict with an extension (in either direction)
+ */
+export function getExtensionConflicts(name: string): string[] {
+    const resolved = resolveExtensionName(name);
+    const own = EXTENSION_CATALOGUE[resolved]?.conflicts || [];
+    const reverse = Object.keys(EXTENSION_CATALOGUE).filter(other => EXTENSION_CATALOGUE[other].conflicts?.includes(resolved));
+    return [...new Set([...own, ...reverse])];
+}
+
+/**
+ * Gets the base of the package name that provides an extension, e.g. 'mysql' for
+ * pdo_mysql on Debian (php8.3-mysql). Extensions without an entry use their own name.
+ */
+export function getPackageBaseName(manager: PackageManagerName, name: string): string {
+    const resolved = resolveExtensionName(name);
+    return EXTENSION_CATALOGUE[resolved]?.packages?.[manager] || resolved;
+}
+
+/**
+ * Checks whether a package manager ships an extension in its own package (rather than with
+ * the main php package)
+ */
+export function hasOwnPackage(manager: PackageManagerName, name: string): boolean {
+    const definition = getExtensionDefinition(name);
+    return !!definition && (!!definition.pecl || definition.packages?.[manager] !== undefined);
+}
+
+/**
+ * Gets the DLL file names of an extension on Windows
+ */
+export function getWindowsDllNames(name: string): string[] {
+    const resolved = resolveExtensionName(name);
+    return EXTENSION_CATALOGUE[resolved]?.windowsDll || [`php_${resolved}.dll`, `${resolved}.dll`];
+}
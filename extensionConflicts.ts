@@ -0,0 +1,91 @@
+import { getExtensionConflicts, resolveExtensionName } from './extensionCatalogue';
+
+/**
+ * How a conflict between two extensions is decided, strongest rule first: locked
+ * extensions, the profile's preferences, essential over optional, then list order
+ */
+export interface ConflictPolicy {
+    profileName: string;
+    preferred: string[];        // Profile preferences, most preferred first
+    essential: string[];        // Essential extensions win over optional ones
+    locked?: string[];          // Loaded from configuration pia does not manage, so they cannot be disabled
+}
+
+/**
+ * One resolved conflict: the winner stays enabled, the loser is disabled
+ */
+export interface ConflictDecision {
+    winner: string;
+    loser: string;
+    reason: string;             // Why the winner was kept
+}
+
+export interface ConflictResolution {
+    kept: string[];
+    decisions: ConflictDecision[];
+}
+
+/**
+ * Finds the pairs of known conflicting extensions in a set
+ */
+export function findExtensionConflicts(extensions: string[]): [string, string][] {
+    const names = [...new Set(extensions.map(extension => resolveExtensionName(extension)))];
+    const pairs: [string, string][] = [];
+
+    names.forEach((name, index) => {
+        for (const other of names.slice(index + 1)) {
+            if (getExtensionConflicts(name).includes(other)) pairs.push([name, other]);
+        }
+    });
+    return pairs;
+}
+
+/**
+ * Resolves the conflicts in the set of extensions that will be enabled. Extensions are
+ * ranked by the policy and kept in rank order; an extension that conflicts with one
+ * already kept loses to it.
+ *
+ * @param extensions - Extensions that will be active, in list order.
+ * @param policy - Profile preferences, essential extensions and locked extensions.
+ */
+export function resolveExtensionConflicts(extensions: string[], policy: ConflictPolicy): ConflictResolution {
+    const names = [...new Set(extensions.map(extension => resolveExtensionName(extension)))];
+    const locked = (policy.locked || []).map(extension => resolveExtensionName(extension));
+    const preferred = policy.preferred.map(extension => resolveExtensionName(extension));
+    const essential = policy.essential.map(extension => resolveExtensionName(extension));
+
+    const rank = (name: string): number[] => [
+        locked.includes(name) ? 0 : 1,
+        preferred.includes(name) ? preferred.indexOf(name) : preferred.length,
+        essential.includes(name) ? 0 : 1,
+        names.indexOf(name)
+    ];
+    const compare = (a: string, b: string): number => {
+        const rankA = rank(a);
+        const rankB = rank(b);
+        const index = rankA.findIndex((value, i) => value !== rankB[i]);
+        return index === -1 ? 0 : rankA[index] - rankB[index];
+    };
+
+    const describe = (winner: string, loser: string): string => {
+        const rankWinner = rank(winner);
+        const rankLoser = rank(loser);
+        if (rankWinner[0] !== rankLoser[0]) return `${winner} is loaded from another configuration file`;
+        if (rankWinner[1] !== rankLoser[1]) return `preferred by the ${policy.profileName} profile`;
+        if (rankWinner[2] !== rankLoser[2]) return `${winner} is an essential extension`;
+        return `${winner} comes first`;
+    };
+
+    const kept: string[] = [];
+    const decisions: ConflictDecision[] = [];
+    for (const name of [...names].sort(compare)) {
+        const winner = kept.find(candidate => getExtensionConflicts(name).includes(candidate));
+        if (winner) {
+            decisions.push({ winner, loser: name, reason: describe(winner, name) });
+        } else {
+            kept.push(name);
+        }
+    }
+
+    return { kept: names.filter(name => kept.includes(name)), decisions };
+}
@@ -0,0 +1,103 @@
+import { EXTENSION_CATALOGUE, getExtensionDependencies, isBuiltInExtension, resolveExtensionName } from './extensionCatalogue';
+
+/**
+ * An extension that was added to a request because another extension needs it
+ */
+export interface Prerequisite {
+    extension: string;
+    requiredBy: string;
+}
+
+export interface ExpandedExtensions {
+    extensions: string[];           // Requested extensions plus prerequisites, in load order
+    prerequisites: Prerequisite[];  // Extensions that were not requested themselves
+}
+
+/**
+ * A pair of extensions loaded in the wrong order
+ */
+export interface LoadOrderViolation {
+    extension: string;
+    loadedBefore: string;           // Prerequisite that is loaded after the extension
+}
+
+/**
+ * Gets the extensions that must load before an extension when they are loaded at all:
+ * hard dependencies and optional ones such as igbinary for redis
+ */
+export function getLoadPrerequisites(name: string): string[] {
+    const definition = EXTENSION_CATALOGUE[resolveExtensionName(name)];
+    return [...(definition?.dependencies || []), ...(definition?.loadAfter || [])];
+}
+
+/**
+ * Sorts extensions so every extension loads after its prerequisites. The order is stable:
+ * extensions only move when a prerequisite would otherwise load after them.
+ *
+ * @param extensions - Extension names, e.g. the enabled extensions of a php.ini in file order.
+ */
+export function sortByLoadOrder(extensions: string[]): string[] {
+    const names = [...new Set(extensions.map(extension => extension.toLowerCase()))];
+    const sorted: string[] = [];
+    const visited = new Set<string>();
+
+    const visit = (name: string): void => {
+        if (visited.has(name)) return;
+        // Marked before the prerequisites, so a cycle cannot recurse forever
+        visited.add(name);
+        for (const prerequisite of getLoadPrerequisites(name)) {
+            const match = names.find(candidate => resolveExtensionName(candidate) === prerequisite);
+            if (match) visit(match);
+        }
+        sorted.push(name);
+    };
+
+    names.forEach(visit);
+    return sorted;
+}
+
+/**
+ * Adds the prerequisites of the requested extensions and puts everything in load order.
+ * Prerequisites that the PHP version compiles in are left out, they need no extension= line.
+ *
+ * @param extensions - Requested extensions.
+ * @param phpVersion - PHP version of the installation (empty for any version).
+ */
+export function expandExtensionDependencies(extensions: string[], phpVersion: string = ''): ExpandedExtensions {
+    const requested = new Set(extensions.map(extension => extension.toLowerCase()));
+    const all: string[] = [];
+    const prerequisites: Prerequisite[] = [];
+
+    const add = (name: string, requiredBy?: string): void => {
+        if (all.includes(name)) return;
+        all.push(name);
+        if (requiredBy && !requested.has(name)) {
+            prerequisites.push({ extension: name, requiredBy });
+        }
+        for (const dependency of getExtensionDependencies(name)) {
+            if (!isBuiltInExtension(dependency, phpVersion)) add(dependency, name);
+        }
+    };
+
+    extensions.forEach(extension => add(extension.toLowerCase()));
+    return { extensions: sortByLoadOrder(all), prerequisites };
+}
+
+/**
+ * Finds extensions that load before one of their prerequisites
+ *
+ * @param extensions - Loaded extensions in load order.
+ */
+export function findLoadOrderViolations(extensions: string[]): LoadOrderViolation[] {
+    const names = extensions.map(extension => resolveExtensionName(extension));
+    const violations: LoadOrderViolation[] = [];
+
+    names.forEach((name, index) => {
+        for (const prerequisite of getLoadPrerequisites(name)) {
+            if (names.indexOf(prerequisite, index + 1) !== -1) {
+                violations.push({ extension: name, loadedBefore: prerequisite });
+            }
+        }
+    });
+    return violations;
+}
@@ -0,0 +1,94 @@
+import { spawnSync } from 'child_process';
+import {
+    CommandRunner,
+    defaultCommandRunner,
+    detectPackageManager,
+    findInstalledExtensionPackage,
+    PackageManager
+} from './packageManagers';
+
+/**
+ * Package manager access used by the installer; replaced with fakes in tests
+ */
+export interface InstallerDeps {
+    manager?: PackageManager | null;                   // Detected from the system by default
+    run?: CommandRunner;                                // Package queries
+    execute?: (command: string[]) => number | null;     // Runs an install command attached to the terminal
+}
+
+export interface PackageAssignment {
+    extension: string;
+    packageName: string;
+}
+
+/**
+ * What `pia ext install` will do for an installation
+ */
+export interface InstallPlan {
+    manager: PackageManager | null;
+    phpVersion: string;
+    installed: PackageAssignment[];     // Packages that are already installed
+    toInstall: PackageAssignment[];     // Packages the install command adds
+    commands: string[][];               // Install commands (empty when nothing is missing)
+}
+
+export interface InstallResult {
+    success: boolean;
+    exitCode: number | null;
+    command: string[];                  // The command that ran (or failed)
+}
+
+/**
+ * Runs a command with the terminal attached so package manager prompts and progress are visible
+ */
+const defaultExecute = (command: string[]): number | null => {
+    const result = spawnSync(command[0], command.slice(1), { stdio: 'inherit', timeout: 30 * 60 * 1000 });
+    return result.error ? null : result.status;
+};
+
+/**
+ * Works out the packages that provide extensions for a PHP version and which of them
+ * still need to be installed.
+ *
+ * @param extensions - Extensions to install, e.g. ['redis', 'intl'].
+ * @param phpVersion - Version of the selected installation (package names are versioned).
+ * @param deps - Package manager access (detected from the system by default).
+ */
+export function planExtensionInstall(extensions: string[], phpVersion: string, deps: InstallerDeps = {}): InstallPlan {
+    const manager = deps.manager !== undefined ? deps.manager : detectPackageManager();
+    const run = deps.run || defaultCommandRunner;
+    const plan: InstallPlan = { manager, phpVersion, installed: [], toInstall: [], commands: [] };
+    if (!manager) return plan;
+
+    for (const extension of extensions) {
+        const installedPackage = findInstalledExtensionPackage(manager, extension, phpVersion, run);
+        if (installedPackage) {
+            plan.installed.push({ extension, packageName: installedPackage });
+        } else {
+            plan.toInstall.push({ extension, packageName: manager.packageNames(extension, phpVersion)[0] });
+        }
+    }
+
+    // Several extensions can share one package (pdo_mysql and mysqli come with php8.3-mysql)
+    const packageNames = [...new Set(plan.toInstall.map(assignment => assignment.packageName))];
+    if (packageNames.length > 0) {
+        plan.commands.push(manager.installCommand(packageNames));
+    }
+    return plan;
+}
+
+/**
+ * Runs the install commands of a plan, stopping at the first failure
+ */
+export function executeInstallPlan(plan: InstallPlan, deps: InstallerDeps = {}): InstallResult {
+    const execute = deps.execute || defaultExecute;
+
+    for (const command of plan.commands) {
+        const exitCode = execute(command);
+        if (exitCode !== 0) {
+            return { success: false, exitCode, command };
+        }
+    }
+
+    return { success: true, exitCode: 0, command: plan.commands[plan.commands.length - 1] || [] };
+}
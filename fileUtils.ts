@@ -0,0 +1,111 @@
+import { execSync } from 'child_process';
+import fs from 'fs-extra';
+
+// ANSI color codes for consistent styling
+const colors = {
+    reset: '\x1b[0m',
+    bright: '\x1b[1m',
+    red: '\x1b[31m',
+    green: '\x1b[32m',
+    yellow: '\x1b[33m',
+    blue: '\x1b[34m',
+    cyan: '\x1b[36m',
+    white: '\x1b[37m'
+};
+
+/**
+ * Checks whether the current user can write a file without elevated permissions
+ */
+export function isWritable(filePath: string): boolean {
+    try {
+        fs.accessSync(filePath, fs.constants.W_OK);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Reads file with sudo support on Unix systems
+ */
+export async function readFileWithSudo(filePath: string, useSudo: boolean = false): Promise<string> {
+    if (useSudo && process.platform !== 'win32') {
+        // Use sudo to read file on Unix systems
+        try {
+            const result = execSync(`sudo cat "${filePath}"`, {
+                encoding: 'utf8',
+                stdio: ['pipe', 'pipe', 'ignore']
+            });
+            return result;
+        } catch (error) {
+            // Fallback to normal read
+            return await fs.readFile(filePath, 'utf8');
+        }
+    } else {
+        // Regular file read
+        return await fs.readFile(filePath, 'utf8');
+    }
+}
+
+/**
+ * Writes file atomically with sudo support on Unix systems.
+ *
+ * The content is staged in a temporary file next to the target and renamed over it,
+ * so readers (and PHP) never see a partially written file.
+ */
+export async function writeFileWithSudo(filePath: string, content: string, useSudo: boolean = false): Promise<void> {
+    const stagedFile = `${filePath}.pia-${process.pid}-${Date.now()}.tmp`;
+    const mode = fs.existsSync(filePath) ? (fs.statSync(filePath).mode & 0o777).toString(8) : '644';
+
+    if (useSudo && process.platform !== 'win32') {
+        // Write to a temp file we own first, then stage and rename it with sudo
+        const tempFile = `/tmp/php-ini-automation-${Date.now()}.tmp`;
+        await fs.writeFile(tempFile, content, 'utf8');
+
+        try {
+            execSync(`sudo cp "${tempFile}" "${stagedFile}" && sudo chmod ${mode} "${stagedFile}" && sudo mv -f "${stagedFile}" "${filePath}"`, { stdio: 'inherit' });
+        } catch (error) {
+            execSync(`sudo rm -f "${stagedFile}"`, { stdio: 'ignore' });
+            throw error;
+        } finally {
+            await fs.remove(tempFile);
+        }
+        console.log(`${colors.green}✅ php.ini updated with sudo${colors.reset}`);
+    } else {
+        // Regular atomic write
+        try {
+            await fs.writeFile(stagedFile, content, { encoding: 'utf8', mode: parseInt(mode, 8) });
+            await fs.rename(stagedFile, filePath);
+        } catch (error) {
+            await fs.remove(stagedFile);
+            throw error;
+        }
+        console.log(`${colors.green}✅ php.ini updated${colors.reset}`);
+    }
+}
+
+/**
+ * Copies a file, falling back to sudo on Unix when the destination is not writable
+ */
+export async function copyFileWithSudo(source: string, destination: string, useSudo: boolean = false): Promise<void> {
+    if (useSudo && process.platform !== 'win32') {
+        execSync(`sudo cp "${source}" "${destination}"`, {
+            stdio: ['pipe', 'pipe', 'ignore'] // Suppress output
+        });
+    } else {
+        await fs.copy(source, destination);
+    }
+}
+
+/**
+ * Removes a file with sudo support on Unix systems
+ */
+export async function removeFileWithSudo(filePath: string, useSudo: boolean = false): Promise<void> {
+    if (useSudo && process.platform !== 'win32') {
+        execSync(`sudo rm -f "${filePath}"`, {
+            stdio: ['pipe', 'pipe', 'ignore']
+        });
+    } else {
+        await fs.remove(filePath);
+    }
+}
@@ -0,0 +1,177 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { ResolvedProfile } from './profiles';
+
+/**
+ * Extension and setting baseline of a PHP framework, applied on top of the profile
+ */
+export interface FrameworkPreset {
+    name: string;
+    label: string;
+    markers: string[];                  // Files (relative to the project root) that identify the framework
+    essentialExtensions: string[];
+    optionalExtensions?: string[];
+    settings: Record<string, string | number>;
+    hints: string[];                    // Commands worth running after configuring PHP
+}
+
+export interface DetectedFramework {
+    preset: FrameworkPreset;
+    projectDir: string;
+    marker: string;
+}
+
+// Checked in this order, so more specific markers win (Magento also ships bin/magento, not artisan)
+export const FRAMEWORK_PRESETS: Record<string, FrameworkPreset> = {
+    magento: {
+        name: 'magento',
+        label: 'Magento',
+        markers: ['app/etc/env.php', 'bin/magento'],
+        essentialExtensions: [
+            'bcmath', 'ctype', 'curl', 'dom', 'gd', 'iconv', 'intl', 'mbstring', 'openssl',
+            'pdo_mysql', 'simplexml', 'soap', 'sockets', 'sodium', 'xsl', 'zip'
+        ],
+        optionalExtensions: ['opcache', 'redis'],
+        settings: {
+            memory_limit: '2G',
+            max_execution_time: 1800,
+            realpath_cache_size: '10M',
+            realpath_cache_ttl: 7200,
+            'zlib.output_compression': 'Off',
+            'opcache.memory_consumption': 512,
+            'opcache.max_accelerated_files': 60000,
+            'opcache.save_comments': 1
+        },
+        hints: [
+            'bin/magento setup:upgrade',
+            'bin/magento cache:flush',
+            'bin/magento indexer:reindex'
+        ]
+    },
+    drupal: {
+        name: 'drupal',
+        label: 'Drupal',
+        markers: ['core/lib/Drupal.php', 'web/core/lib/Drupal.php', 'docroot/core/lib/Drupal.php'],
+        essentialExtensions: ['ctype', 'curl', 'dom', 'gd', 'mbstring', 'pdo', 'simplexml', 'tokenizer', 'xml'],
+        optionalExtensions: ['opcache', 'apcu', 'zip'],
+        settings: {
+            memory_limit: '256M',
+            realpath_cache_size: '4096K',
+            'opcache.max_accelerated_files': 20000
+        },
+        hints: [
+            'drush status',
+            'drush updatedb',
+            'drush cache:rebuild'
+        ]
+    },
+    wordpress: {
+        name: 'wordpress',
+        label: 'WordPress',
+        markers: ['wp-config.php', 'wp-load.php', 'web/wp-config.php', 'wp/wp-load.php'],
+        essentialExtensions: ['curl', 'dom', 'exif', 'fileinfo', 'mbstring', 'mysqli', 'openssl', 'xml', 'zip'],
+        optionalExtensions: ['gd', 'imagick', 'intl', 'opcache'],
+        settings: {
+            memory_limit: '256M',
+            upload_max_filesize: '64M',
+            post_max_size: '64M',
+            max_input_vars: 3000
+        },
+        hints: [
+            'wp core verify-checksums',
+            'wp cache flush',
+            'Check Tools → Site Health in the dashboard'
+        ]
+    },
+    laravel: {
+        name: 'laravel',
+        label: 'Laravel',
+        markers: ['artisan'],
+        essentialExtensions: ['bcmath', 'ctype', 'curl', 'fileinfo', 'mbstring', 'openssl', 'pdo', 'tokenizer', 'xml'],
+        optionalExtensions: ['redis', 'pcntl'],
+        settings: {},
+        hints: [
+            'php artisan about',
+            'php artisan migrate',
+            'php artisan serve'
+        ]
+    },
+    symfony: {
+        name: 'symfony',
+        label: 'Symfony',
+        markers: ['symfony.lock', 'bin/console'],
+        essentialExtensions: ['ctype', 'iconv', 'intl', 'mbstring', 'pdo', 'tokenizer', 'xml'],
+        optionalExtensions: ['apcu', 'opcache'],
+        settings: {
+            realpath_cache_size: '4096K',
+            realpath_cache_ttl: 600,
+            'opcache.memory_consumption': 256,
+            'opcache.max_accelerated_files': 20000
+        },
+        hints: [
+            'symfony check:requirements',
+            'php bin/console cache:clear',
+            'symfony server:start'
+        ]
+    }
+};
+
+/**
+ * Gets a framework preset by name
+ *
+ * @throws If there is no preset with that name.
+ */
+export function getFrameworkPreset(name: string): FrameworkPreset {
+    const preset = FRAMEWORK_PRESETS[name.toLowerCase()];
+    if (!preset) {
+        throw new Error(`Unknown framework "${name}". Available frameworks: ${Object.keys(FRAMEWORK_PRESETS).join(', ')}`);
+    }
+    return preset;
+}
+
+/**
+ * Detects the framework of the project containing a directory by looking for marker
+ * files, walking up to the filesystem root.
+ *
+ * @param startDir - Directory to start from (defaults to the current working directory).
+ */
+export function detectFramework(startDir: string = process.cwd()): DetectedFramework | null {
+    let dir = path.resolve(startDir);
+
+    while (true) {
+        for (const preset of Object.values(FRAMEWORK_PRESETS)) {
+            const marker = preset.markers.find(candidate => fs.existsSync(path.join(dir, candidate)));
+            if (marker) {
+                return { preset, projectDir: dir, marker };
+            }
+        }
+
+        const parent = path.dirname(dir);
+        if (parent === dir) return null;
+        dir = parent;
+    }
+}
+
+/**
+ * Merges a framework preset over a resolved profile: its extensions are added to the
+ * profile's lists and its settings override the profile settings.
+ */
+export function applyFrameworkPreset(profile: ResolvedProfile, preset: FrameworkPreset): ResolvedProfile {
+    const essentialExtensions = [
+        ...profile.essentialExtensions,
+        ...preset.essentialExtensions.filter(ext => !profile.essentialExtensions.includes(ext))
+    ].filter(ext => !profile.disableExtensions.includes(ext));
+
+    const optionalExtensions = [
+        ...profile.optionalExtensions,
+        ...(preset.optionalExtensions || []).filter(ext => !profile.optionalExtensions.includes(ext))
+    ].filter(ext => !essentialExtensions.includes(ext) && !profile.disableExtensions.includes(ext));
+
+    return {
+        ...profile,
+        framework: preset.name,
+        essentialExtensions,
+        optionalExtensions,
+        settings: { ...profile.settings, ...preset.settings }
+    };
+}
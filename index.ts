@@ -1,9 +1,47 @@
 #!/usr/bin/env node
 
 import fs from 'fs-extra';
+import path from 'path';
 import { createInterface } from 'readline';
-import { determinePhpIniPaths, PhpInstallation, scanPhpInstallations, validatePhpInstallation } from './phpEnvironmentUtils';
-import { customizePhpIni, validateSourceFile } from './phpIniManager';
+import { findBackup, listBackups, pruneBackups, restoreBackup } from './backupManager';
+import {
+    applyComposerRequirements,
+    ComposerMode,
+    ComposerRequirements,
+    findComposerProject,
+    findUnsatisfiedPhpRequirements,
+    readComposerRequirements
+} from './composerRequirements';
+import { displayDirectiveReadings, parseDirectiveAssignments, readDirectives, setDirectives, unsetDirectives } from './directiveEditor';
+import { displayDoctorReport, runDoctor } from './doctor';
+import { CONFIG_MODES, ConfigMode } from './dropInConfig';
+import { executeInstallPlan, planExtensionInstall } from './extensionInstaller';
+import { isWritable } from './fileUtils';
+import { applyFrameworkPreset, detectFramework, FRAMEWORK_PRESETS, FrameworkPreset, getFrameworkPreset } from './frameworks';
+import { validateSettings } from './iniValidation';
+import {
+    determinePhpIniPaths,
+    getInstallationSapis,
+    PhpInstallation,
+    PhpSapi,
+    scanPhpInstallations,
+    validatePhpInstallation
+} from './phpEnvironmentUtils';
+import {
+    customizePhpIni,
+    CustomizeResult,
+    disablePhpExtensions,
+    enablePhpExtensions,
+    ExtensionState,
+    listPhpExtensions,
+    validateSourceFile
+} from './phpIniManager';
+import { buildPeclExtension, findBuildTools } from './peclBuilder';
+import { getExtensionsLoaded } from './phpRuntime';
+import { DEFAULT_PROFILE, listProfiles, resolveProfile } from './profiles';
+import { applyProjectConfig, findProjectConfig, loadProjectConfig } from './projectConfig';
+import { satisfiesVersionConstraint } from './versionConstraint';
+import { displayXdebugStatus, switchXdebugMode, XDEBUG_MODES, XdebugMode, XdebugOptions } from './xdebugModes';
 
 // ANSI color codes for better CLI experience
 const colors = {
@@ -18,6 +56,23 @@ const colors = {
     white: '\x1b[37m'
 };
 
+/**
+ * Options for the interactive php.ini update
+ */
+export interface UpdatePhpIniOptions {
+    dryRun?: boolean;       // Show the diff and planned changes without writing anything
+    backupDir?: string;     // Central backup store instead of the php.ini directory
+    profile?: string;       // Configuration profile, e.g. 'production'
+    configPath?: string;    // Project configuration file (discovered from the cwd by default)
+    composer?: ComposerMode; // Derive required extensions from composer.json/composer.lock
+    framework?: string;     // Framework preset, 'none' to skip auto-detection
+    mode?: ConfigMode;      // 'inplace' (default) or 'drop-in' (managed conf.d file)
+    sapi?: string;          // SAPIs to configure: 'cli,fpm' or 'all' (default: the detected php.ini)
+}
+
+// Options that take a value (--name value or --name=value)
+const VALUE_OPTIONS = ['--keep', '--backup-dir', '--profile', '--config', '--framework', '--mode', '--sapi', '--installation', '--source', '--host', '--port', '--output-dir'];
+
 /**
  * Displays a formatted header
  */
@@ -25,7 +80,7 @@ function displayHeader(): void {
     console.log(`${colors.cyan}${colors.bright}`);
     console.log('╔══════════════════════════════════════════════════════════════╗');
     console.log('║                    PHP INI AUTOMATION                       ║');
-    console.log('║            Laravel-Optimized PHP Configuration Tool         ║');
+    console.log('║           Framework-Aware PHP Configuration Tool            ║');
     console.log('╚══════════════════════════════════════════════════════════════╝');
     console.log(`${colors.reset}\n`);
 }
@@ -65,7 +120,9 @@ function displayPhpInstallations(installations: PhpInstallation[]): void {
             const arch = installation.architecture ? ` ${installation.architecture}` : '';
             const ts = installation.threadSafety !== undefined ?
                 (installation.threadSafety ? ' TS' : ' NTS') : '';
-            const details = `${arch}${ts}`.trim();
+            const sapis = installation.sapis && installation.sapis.length > 1 ?
+                ` SAPIs: ${installation.sapis.map(sapi => sapi.name).join(', ')}` : '';
+            const details = `${arch}${ts}${sapis}`.trim();
 
             if (details) {
                 console.log(`${colors.bright}│     │             │                  │ ${colors.white}${details.padEnd(45)}${colors.reset}${colors.bright} │        │${colors.reset}`);
@@ -80,6 +137,32 @@ function displayPhpInstallations(installations: PhpInstallation[]): void {
     console.log(`${colors.bright}Info:${colors.reset} TS = Thread Safe, NTS = Non-Thread Safe\n`);
 }
 
+/**
+ * Displays which packages require which extensions and flags unsatisfied PHP constraints
+ */
+function displayComposerRequirements(requirements: ComposerRequirements, phpVersion: string): void {
+    console.log(`${colors.bright}📦 Composer requirements (${requirements.sources.map(source => path.basename(source)).join(' + ')}):${colors.reset}`);
+
+    if (requirements.extensions.length === 0) {
+        console.log(`   ${colors.yellow}No ext-* requirements declared${colors.reset}`);
+    }
+    for (const requirement of requirements.extensions) {
+        const constraints = requirement.constraints.length > 0 ? ` ${colors.white}${requirement.constraints.join(', ')}${colors.reset}` : '';
+        console.log(`   • ${colors.cyan}${requirement.extension}${colors.reset}${constraints} ← ${requirement.requiredBy.join(', ')}`);
+    }
+
+    const unsatisfied = findUnsatisfiedPhpRequirements(requirements, phpVersion);
+    if (unsatisfied.length > 0) {
+        console.log(`${colors.red}❌ PHP ${phpVersion} does not satisfy:${colors.reset}`);
+        unsatisfied.forEach(requirement => {
+            console.log(`   • ${colors.red}php ${requirement.constraint}${colors.reset} ← ${requirement.requiredBy}`);
+        });
+    } else if (requirements.php.length > 0) {
+        console.log(`${colors.green}✅ PHP ${phpVersion} satisfies all ${requirements.php.length} php constraint(s)${colors.reset}`);
+    }
+    console.log('');
+}
+
 /**
  * Prompts user to select a PHP installation
  */
@@ -112,15 +195,69 @@ async function selectPhpInstallation(installations: PhpInstallation[]): Promise<
     });
 }
 
+/**
+ * Selects the SAPIs to configure from a --sapi value ("cli,fpm" or "all").
+ * Without a selection only the SAPI of the detected php.ini is configured.
+ *
+ * @throws If a requested SAPI does not exist for the installation.
+ */
+function selectSapis(installation: PhpInstallation, selection?: string): PhpSapi[] {
+    const available = getInstallationSapis(installation);
+    if (!selection) {
+        const detected = available.find(sapi => sapi.iniPath === installation.iniPath);
+        return [detected || { name: 'cli', iniPath: installation.iniPath, scanDir: installation.scanDir }];
+    }
+    if (selection === 'all') return available;
+
+    const names = selection.split(',').map(name => name.trim().toLowerCase()).filter(name => name);
+    const unknown = names.filter(name => !available.some(sapi => sapi.name === name));
+    if (unknown.length > 0) {
+        throw new Error(`Unknown SAPI "${unknown.join(', ')}" for PHP ${installation.version}. Available SAPIs: ${available.map(sapi => sapi.name).join(', ')}`);
+    }
+    return available.filter(sapi => names.includes(sapi.name));
+}
+
+/**
+ * Displays the outcome for each configured SAPI
+ */
+function displaySapiResults(results: CustomizeResult[]): void {
+    console.log(`\n${colors.bright}📋 SAPI results:${colors.reset}`);
+    results.forEach(result => {
+        let status: string;
+        if (!result.validation.valid) {
+            status = `${colors.red}rejected (${result.validation.errors.length} error(s))${colors.reset}`;
+        } else if (result.rolledBack) {
+            status = `${colors.red}rolled back${colors.reset}`;
+        } else if (result.dryRun) {
+            status = `${colors.yellow}${result.changes.length} change(s) planned${colors.reset}`;
+        } else if (result.written) {
+            status = `${colors.green}${result.changes.length} change(s) applied${colors.reset}`;
+        } else {
+            status = `${colors.green}up to date${colors.reset}`;
+        }
+        console.log(`   • ${colors.bright}${(result.sapi || 'cli').padEnd(8)}${colors.reset} ${status} ${colors.cyan}${result.filePath}${colors.reset}`);
+    });
+}
+
 /**
  * Enhanced PHP ini update function with better UX
  */
-async function updatePhpIni(version: string = '', interactive: boolean = true): Promise<void> {
+async function updatePhpIni(version: string = '', interactive: boolean = true, options: UpdatePhpIniOptions = {}): Promise<void> {
     displayHeader();
 
     console.log(`${colors.bright}🔍 Scanning for PHP installations...${colors.reset}`);
 
     try {
+        const projectConfig = options.configPath ? loadProjectConfig(options.configPath) : findProjectConfig();
+        const mode = options.mode || projectConfig?.config.mode;
+        if (mode && !CONFIG_MODES.includes(mode)) {
+            throw new Error(`Invalid --mode "${mode}" (expected ${CONFIG_MODES.join(' or ')})`);
+        }
+        const phpConstraint = projectConfig?.config.php;
+        if (projectConfig) {
+            console.log(`${colors.cyan}📄 Project configuration: ${projectConfig.path}${colors.reset}`);
+        }
+
         const installations = scanPhpInstallations();
 
         if (installations.length === 0) {
@@ -153,10 +290,18 @@ async function updatePhpIni(version: string = '', interactive: boolean = true):
                 selectedInstallation = interactive ? await selectPhpInstallation(installations) : installations[0];
             }
         } else {
-            // Interactive selection or use first
+            // Interactive selection or use first (first matching the project constraint)
+            const preferred = phpConstraint ?
+                installations.find(inst => satisfiesVersionConstraint(inst.version, phpConstraint)) :
+                undefined;
             selectedInstallation = interactive && process.stdin.isTTY ?
                 await selectPhpInstallation(installations) :
-                installations[0];
+                preferred || installations[0];
+        }
+
+        if (phpConstraint && !satisfiesVersionConstraint(selectedInstallation.version, phpConstraint)) {
+            console.log(`${colors.red}❌ PHP ${selectedInstallation.version} does not satisfy the project constraint "${phpConstraint}" (${projectConfig!.path})${colors.reset}\n`);
+            process.exit(1);
         }
 
         console.log(`${colors.bright}🎯 Selected: ${colors.green}${selectedInstallation.environment} PHP ${selectedInstallation.version}${colors.reset}`);
@@ -197,30 +342,173 @@ async function updatePhpIni(version: string = '', interactive: boolean = true):
             console.log(`${colors.cyan}🔐 Elevated permissions required - using sudo for file operations${colors.reset}`);
         }
 
-        console.log(`${colors.bright}🔧 Customizing php.ini configuration...${colors.reset}`);
+        // Profile < framework preset < composer requirements < project configuration
+        let profile = resolveProfile(options.profile || projectConfig?.config.profile, projectConfig?.config.profiles);
+        const projectDir = projectConfig ? path.dirname(projectConfig.path) : process.cwd();
 
-        validateSourceFile(selectedInstallation.iniPath, validation.needsSudo);
-        await customizePhpIni(selectedInstallation.iniPath, selectedInstallation.extensionDir, {}, validation.needsSudo, selectedInstallation.phpExecutable);
+        const frameworkName = options.framework || projectConfig?.config.framework;
+        let framework: FrameworkPreset | null = null;
+        if (frameworkName && frameworkName !== 'none') {
+            framework = getFrameworkPreset(frameworkName);
+        } else if (!frameworkName) {
+            const detected = detectFramework(projectDir);
+            if (detected) {
+                framework = detected.preset;
+                console.log(`${colors.cyan}🧭 Detected ${detected.preset.label} project (${path.join(detected.projectDir, detected.marker)})${colors.reset}`);
+            }
+        }
+        if (framework) {
+            profile = applyFrameworkPreset(profile, framework);
+        }
 
-        console.log(`\n${colors.green}${colors.bright}🎉 SUCCESS! PHP optimized for Laravel development!${colors.reset}`);
-        console.log(`${colors.bright}📋 Laravel-Ready Summary:${colors.reset}`);
+        const composerMode = options.composer || projectConfig?.config.composer;
+        if (composerMode) {
+            if (composerMode !== 'augment' && composerMode !== 'replace') {
+                throw new Error(`Invalid --composer mode "${composerMode}" (expected augment or replace)`);
+            }
+            const composerDir = findComposerProject(projectDir);
+            if (!composerDir) {
+                throw new Error('composer.json not found in the current directory or its parents');
+            }
+            const requirements = readComposerRequirements(composerDir);
+            displayComposerRequirements(requirements, selectedInstallation.version);
+            profile = applyComposerRequirements(profile, requirements, composerMode);
+        }
+
+        if (projectConfig) {
+            profile = applyProjectConfig(profile, projectConfig.config);
+        }
+        const frameworkLabel = framework ? `, ${framework.label} preset` : '';
+        console.log(`${colors.bright}🔧 Customizing php.ini configuration (${profile.name} profile${frameworkLabel})...${colors.reset}`);
+
+        // Each SAPI has its own php.ini and scan directory and is configured separately
+        const sapis = selectSapis(selectedInstallation, options.sapi);
+        const results: CustomizeResult[] = [];
+        for (const sapi of sapis) {
+            if (sapis.length > 1) {
+                console.log(`\n${colors.bright}🧩 ${sapi.name} SAPI: ${sapi.iniPath}${colors.reset}`);
+            }
+            const needsSudo = sapi.iniPath === selectedInstallation.iniPath ?
+                validation.needsSudo : process.platform !== 'win32' && !isWritable(sapi.iniPath);
+
+            validateSourceFile(sapi.iniPath, needsSudo);
+            results.push(await customizePhpIni(
+                sapi.iniPath,
+                selectedInstallation.extensionDir,
+                projectConfig?.config.settings || {},
+                needsSudo,
+                selectedInstallation.phpExecutable,
+                {
+                    dryRun: options.dryRun,
+                    installation: selectedInstallation,
+                    backupDir: options.backupDir,
+                    profile,
+                    mode,
+                    scanDir: sapi.scanDir,
+                    sapi: sapi.name
+                }
+            ));
+        }
+
+        if (sapis.length > 1) {
+            displaySapiResults(results);
+        }
+
+        if (results.some(result => !result.validation.valid)) {
+            console.log(`\n${colors.red}${colors.bright}❌ Configuration rejected: fix the settings above and run again${colors.reset}\n`);
+            process.exit(1);
+        }
+
+        if (options.dryRun) {
+            const planned = results.reduce((total, result) => total + result.changes.length, 0);
+            console.log(`\n${colors.yellow}${colors.bright}🔍 DRY RUN: ${planned} change(s) planned, php.ini was not modified${colors.reset}`);
+            console.log(`${colors.cyan}   Run again without --dry-run to apply them${colors.reset}\n`);
+            return;
+        }
+
+        const rolledBack = results.filter(result => result.rolledBack);
+        if (rolledBack.length > 0) {
+            console.log(`\n${colors.red}${colors.bright}❌ Configuration rolled back: PHP failed to start with the new php.ini${colors.reset}`);
+            rolledBack.forEach(result => {
+                const prefix = sapis.length > 1 ? `${result.sapi}: ` : '';
+                result.startupIssues.forEach(issue => console.log(`   • ${colors.red}${prefix}${issue.message}${colors.reset}`));
+            });
+            console.log(`\n${colors.yellow}💡 Preview the change with: ${colors.green}pia --dry-run${colors.reset}\n`);
+            process.exit(1);
+        }
+
+        // What PHP reports after the change, not just what was written
+        const verifications = results.filter(result => result.verification?.checked).map(result => ({ sapi: result.sapi, items: result.verification!.items }));
+        const mismatches = verifications.flatMap(verification =>
+            verification.items.filter(item => item.status === 'mismatch').map(item => ({ ...item, sapi: verification.sapi }))
+        );
+        const verifiedItems = verifications.flatMap(verification => verification.items);
+        const countVerified = (kind: 'setting' | 'extension') => {
+            const items = verifiedItems.filter(item => item.kind === kind);
+            return `${items.filter(item => item.status !== 'mismatch').length}/${items.length}`;
+        };
+        const opcache = verifiedItems.find(item => item.kind === 'extension' && item.name === 'opcache');
+
+        const target = framework ? `${framework.label} ${profile.name}` : profile.name;
+        if (mismatches.length > 0) {
+            console.log(`\n${colors.red}${colors.bright}❌ PHP does not use ${mismatches.length} of the configured value(s):${colors.reset}`);
+        } else {
+            console.log(`\n${colors.green}${colors.bright}🎉 SUCCESS! PHP optimized for ${target}!${colors.reset}`);
+        }
+        console.log(`${colors.bright}📋 Summary:${colors.reset}`);
         console.log(`   • Environment: ${selectedInstallation.environment}`);
         console.log(`   • PHP Version: ${selectedInstallation.version} ${colors.green}✓${colors.reset}`);
-        console.log(`   • Laravel extensions: ${colors.green}Enabled${colors.reset}`);
-        console.log(`   • Performance settings: ${colors.green}Optimized${colors.reset}`);
-        console.log(`   • Security settings: ${colors.green}Configured${colors.reset}`);
-        console.log(`   • OPcache: ${colors.green}Enabled${colors.reset}`);
+        console.log(`   • Profile: ${profile.name}`);
+        if (sapis.length > 1) {
+            console.log(`   • SAPIs: ${sapis.map(sapi => sapi.name).join(', ')}`);
+        }
+        results.filter(result => result.mode === 'drop-in').forEach(result => {
+            console.log(`   • Managed drop-in: ${result.filePath}`);
+        });
+        console.log(`   • Framework: ${framework ? framework.label : 'none detected'}`);
+        if (verifications.length > 0) {
+            console.log(`   • Settings in effect: ${countVerified('setting')}`);
+            console.log(`   • Extensions as expected: ${countVerified('extension')}`);
+            if (opcache) {
+                const color = opcache.effective === 'loaded' ? colors.green : colors.yellow;
+                console.log(`   • OPcache: ${color}${opcache.effective === 'loaded' ? 'Loaded' : 'Not loaded'}${colors.reset}`);
+            }
+        } else {
+            console.log(`   • Effective values: ${colors.yellow}not verified (PHP could not be run)${colors.reset}`);
+        }
+        mismatches.forEach(item => {
+            const prefix = sapis.length > 1 ? `${item.sapi}: ` : '';
+            console.log(`   • ${colors.red}${prefix}${item.kind === 'extension' ? `extension ${item.name}` : item.name}: expected ${item.expected || '""'}, effective ${item.effective || '""'}${colors.reset}`);
+        });
+        if (mismatches.length > 0) {
+            console.log(`\n${colors.yellow}💡 Another .ini file, the extension_dir or the SAPI overrides these; check ${colors.green}${selectedInstallation.phpExecutable} --ini${colors.reset}\n`);
+            process.exit(1);
+        }
 
-        // Laravel-specific recommendations
-        console.log(`\n${colors.bright}🚀 Laravel Development Ready!${colors.reset}`);
-        console.log(`${colors.cyan}   Create new Laravel project: ${colors.green}composer create-project laravel/laravel my-app${colors.reset}`);
-        console.log(`${colors.cyan}   Start development server: ${colors.green}php artisan serve${colors.reset}`);
-        console.log(`${colors.cyan}   Run migrations: ${colors.green}php artisan migrate${colors.reset}`);
+        // Framework-specific next steps
+        if (framework) {
+            console.log(`\n${colors.bright}🚀 ${framework.label} Ready! Next steps:${colors.reset}`);
+            framework.hints.forEach(hint => console.log(`${colors.cyan}   ${colors.green}${hint}${colors.reset}`));
+        } else {
+            console.log(`\n${colors.yellow}💡 Run pia inside a project or pass --framework <${Object.keys(FRAMEWORK_PRESETS).join('|')}> for framework presets${colors.reset}`);
+        }
+
+        // Server SAPIs only pick up the new configuration after a reload
+        const majorMinor = selectedInstallation.version.split('.').slice(0, 2).join('.');
+        const reloads = results.filter(result => result.written).map(result => {
+            if (result.sapi === 'fpm') return `sudo systemctl reload php${majorMinor}-fpm`;
+            if (result.sapi === 'apache2') return 'sudo systemctl reload apache2';
+            return null;
+        }).filter((command): command is string => command !== null);
+        if (reloads.length > 0) {
+            console.log(`\n${colors.bright}🔄 Reload the server to apply the changes:${colors.reset}`);
+            reloads.forEach(command => console.log(`${colors.cyan}   ${colors.green}${command}${colors.reset}`));
+        }
 
         // Platform-specific setup
         if (process.platform === 'linux') {
             console.log(`\n${colors.bright}🐧 Ubuntu Complete Setup:${colors.reset}`);
-            console.log(`${colors.cyan}   Install ALL Laravel extensions:${colors.reset}`);
+            console.log(`${colors.cyan}   Install common extensions:${colors.reset}`);
             console.log(`${colors.green}   sudo apt update && sudo apt install -y php-mysql php-curl php-gd php-mbstring php-xml php-zip php-bcmath php-intl php-soap php-xsl php-ldap php-sqlite3 php-opcache php-apcu${colors.reset}`);
             console.log(`${colors.cyan}   Install Composer: ${colors.green}curl -sS https://getcomposer.org/installer | php && sudo mv composer.phar /usr/local/bin/composer${colors.reset}`);
             console.log(`${colors.cyan}   Verify setup: ${colors.green}pia && php -v${colors.reset} (should be clean)`);
@@ -279,24 +567,67 @@ function displayHelp(): void {
     console.log('  php-ini-automation              # Auto-detect and configure PHP');
     console.log('  php-ini-automation 8.2          # Configure specific PHP version');
     console.log('  php-ini-automation --list       # List all detected PHP installations');
+    console.log('  php-ini-automation --dry-run    # Preview changes as a unified diff');
+    console.log('  php-ini-automation --profile production  # Apply production settings');
+    console.log('  php-ini-automation profiles     # List configuration profiles');
+    console.log('  php-ini-automation --config ./pia.config.json  # Use a specific project configuration');
+    console.log('  php-ini-automation --composer   # Add extensions required by composer.json/lock');
+    console.log('  php-ini-automation --framework magento  # Use the Magento preset (auto-detected by default)');
+    console.log('  php-ini-automation --mode=drop-in  # Leave php.ini alone, write conf.d/99-pia.ini');
+    console.log('  php-ini-automation --sapi cli,fpm  # Configure the CLI and FPM php.ini together');
+    console.log('  php-ini-automation ext list     # Show each extension as loaded, available, missing or compiled in');
+    console.log('  php-ini-automation ext enable redis  # Enable an installed extension (and its prerequisites)');
+    console.log('  php-ini-automation ext disable xdebug  # Disable an extension');
+    console.log('  php-ini-automation ext install redis intl  # Install extension packages for the selected PHP');
+    console.log('  php-ini-automation ext install --print     # Show the install commands for the profile\'s missing extensions');
+    console.log('  php-ini-automation get memory_limit  # Show a directive in php.ini and at runtime');
+    console.log('  php-ini-automation set memory_limit=1G max_execution_time=120  # Change directives in php.ini');
+    console.log('  php-ini-automation unset memory_limit  # Comment a directive out (back to the default)');
+    console.log('  php-ini-automation xdebug debug # Step debugging (also coverage, profile; off unloads Xdebug)');
+    console.log('  php-ini-automation doctor       # Report problems with every PHP installation');
+    console.log('  php-ini-automation doctor --json  # The same report as JSON');
+    console.log('  php-ini-automation backups      # List php.ini backups');
+    console.log('  php-ini-automation restore [id] # Restore a backup (latest by default)');
+    console.log('  php-ini-automation backups prune --keep 5  # Keep the 5 newest backups per php.ini');
     console.log('  php-ini-automation --help       # Show this help\n');
 
     console.log(`${colors.bright}OPTIONS:${colors.reset}`);
     console.log('  --list, -l         List all detected PHP installations');
     console.log('  --version, -v      Show version information');
     console.log('  --help, -h         Show this help message');
-    console.log('  --non-interactive  Run without user prompts\n');
+    console.log('  --non-interactive  Run without user prompts');
+    console.log('  --dry-run          Show a diff of the planned changes without writing');
+    console.log('  --backup-dir <dir> Store backups in a central directory');
+    console.log(`  --profile <name>   Configuration profile (default: ${DEFAULT_PROFILE})`);
+    console.log('  --config <file>    Project configuration (default: nearest pia.config.json or .piarc)');
+    console.log('  --composer[=mode]  Require the ext-* packages of composer.json/lock (augment or replace)');
+    console.log('  --framework <name> Framework preset (laravel, symfony, wordpress, drupal, magento, none)');
+    console.log('  --mode <mode>      inplace (edit php.ini, default) or drop-in (manage conf.d/99-pia.ini)');
+    console.log('  --sapi <list>      SAPIs to configure, e.g. cli,fpm or all (Debian-style /etc/php/X.Y/<sapi>)');
+    console.log('  --installation <x> Installation for subcommands: number from --list, version, environment or path');
+    console.log('  --print            ext install: only print the package manager commands');
+    console.log('  --yes, -y          ext install: install without asking for confirmation');
+    console.log('  --pecl             ext install: build from PECL with the installation\'s phpize/php-config');
+    console.log('  --source <dir>     ext install: build from <ext>-<version>.tgz tarballs in a directory');
+    console.log('  --force            set: write directives that are not in the directive catalogue');
+    console.log('  --host <host>      xdebug: IDE host (default localhost)');
+    console.log('  --port <port>      xdebug: IDE port (default 9003, 9000 for Xdebug 2)');
+    console.log('  --output-dir <dir> xdebug: profiler output directory (default /tmp)');
+    console.log('  --json             doctor: print the report as JSON\n');
 
     console.log(`${colors.bright}ENVIRONMENT VARIABLES:${colors.reset}`);
     console.log('  LARAGON_PATH   Path to Laragon installation (e.g., C:/laragon)');
     console.log('  XAMPP_PATH     Path to XAMPP installation (e.g., C:/xampp)');
     console.log('  WAMP_PATH      Path to WAMP installation (e.g., C:/wamp64)');
     console.log('  PVM_PATH       Path to PVM installation (e.g., C:/tools/php)');
-    console.log('  DEFAULT_PATH   Path to custom PHP installation (e.g., C:/php)\n');
+    console.log('  DEFAULT_PATH   Path to custom PHP installation (e.g., C:/php)');
+    console.log('  PIA_BACKUP_DIR Central backup store (instead of next to php.ini)');
+    console.log('  PIA_HOME       Directory for the backup catalogue and profiles.json (default: ~/.php-ini-automation)');
+    console.log('  PIA_PACKAGE_MANAGER  Package manager for extension packages: apt, dnf, apk, pacman or brew (detected from /etc/os-release)\n');
 
     console.log(`${colors.bright}FEATURES:${colors.reset}`);
     console.log('  ✅ Auto-detects PHP installations (Laragon, XAMPP, WAMP, PVM)');
-    console.log('  ✅ Enables Laravel-required extensions');
+    console.log('  ✅ Framework presets (Laravel, Symfony, WordPress, Drupal, Magento)');
     console.log('  ✅ Optimizes performance settings');
     console.log('  ✅ Supports multiple PHP versions');
     console.log('  ✅ Interactive selection interface\n');
@@ -329,8 +660,552 @@ async function listInstallations(): Promise<void> {
     });
 }
 
+/**
+ * Lists built-in and user-defined configuration profiles
+ */
+function listProfilesCommand(): void {
+    const projectConfig = findProjectConfig();
+    const profiles = listProfiles(projectConfig?.config.profiles);
+
+    console.log(`${colors.bright}🧩 Configuration profiles:${colors.reset}\n`);
+    for (const [name, profile] of Object.entries(profiles)) {
+        const isDefault = name === DEFAULT_PROFILE ? ` ${colors.green}(default)${colors.reset}` : '';
+        const base = profile.extends ? ` ${colors.white}extends ${profile.extends}${colors.reset}` : '';
+        console.log(`${colors.bright}${colors.cyan}${name}${colors.reset}${isDefault}${base}`);
+        if (profile.description) {
+            console.log(`    ${profile.description}`);
+        }
+    }
+
+    console.log(`\n${colors.yellow}💡 Apply with: ${colors.green}pia --profile <name>${colors.reset}\n`);
+}
+
+/**
+ * Lists catalogued php.ini backups
+ */
+function listBackupsCommand(): void {
+    const backups = listBackups();
+
+    if (backups.length === 0) {
+        console.log(`${colors.yellow}ℹ️  No backups recorded yet.${colors.reset}\n`);
+        return;
+    }
+
+    console.log(`${colors.bright}📋 php.ini backups (${backups.length}):${colors.reset}\n`);
+    for (const backup of backups) {
+        const missing = fs.existsSync(backup.backupPath) ? '' : ` ${colors.red}(file missing)${colors.reset}`;
+        console.log(`${colors.bright}${colors.cyan}${backup.id}${colors.reset}  ${backup.installation} PHP ${backup.phpVersion}  ${colors.white}${new Date(backup.createdAt).toLocaleString()}${colors.reset}${missing}`);
+        console.log(`    📄 INI: ${backup.iniPath}`);
+        console.log(`    💾 Backup: ${backup.backupPath}`);
+        console.log(`    📝 Reason: ${backup.reason}\n`);
+    }
+
+    console.log(`${colors.yellow}💡 Restore with: ${colors.green}pia restore <id>${colors.reset}\n`);
+}
+
+/**
+ * Deletes old backups, keeping the newest N per php.ini file
+ */
+async function pruneBackupsCommand(keepValue: string | undefined): Promise<void> {
+    const keep = keepValue !== undefined ? parseInt(keepValue, 10) : NaN;
+    if (isNaN(keep)) {
+        console.log(`${colors.red}❌ Usage: pia backups prune --keep <N>${colors.reset}\n`);
+        process.exit(1);
+    }
+
+    const removed = await pruneBackups(keep);
+    console.log(`${colors.green}✅ Removed ${removed.length} backup(s), keeping the newest ${keep} per php.ini${colors.reset}\n`);
+}
+
+/**
+ * Restores php.ini from a catalogued backup (the most recent one when no id is given)
+ */
+async function restoreCommand(id: string | undefined, backupDir?: string): Promise<void> {
+    const backup = findBackup(id);
+
+    if (!backup) {
+        console.log(`${colors.red}❌ ${id ? `Backup ${id} not found` : 'No backups recorded yet'}.${colors.reset}`);
+        console.log(`${colors.yellow}💡 List available backups with: ${colors.green}pia backups${colors.reset}\n`);
+        process.exit(1);
+    }
+
+    console.log(`${colors.bright}♻️  Restoring backup ${colors.cyan}${backup.id}${colors.reset}`);
+    console.log(`    📄 INI: ${backup.iniPath}`);
+    console.log(`    💾 From: ${backup.backupPath}`);
+    console.log(`    📝 Reason: ${backup.reason}`);
+
+    try {
+        const safetyBackup = await restoreBackup(backup, backupDir);
+        console.log(`${colors.green}${colors.bright}🎉 Restored php.ini from ${backup.id}${colors.reset}`);
+        if (safetyBackup) {
+            console.log(`${colors.cyan}   Previous content saved as backup ${safetyBackup.id}${colors.reset}`);
+        }
+        console.log('');
+    } catch (error: any) {
+        console.log(`${colors.red}❌ Restore failed: ${error.message}${colors.reset}\n`);
+        process.exit(1);
+    }
+}
+
+/**
+ * Finds the installation a subcommand works on. The selector is the number shown by
+ * --list, a version prefix, an environment name or part of the path; without one the
+ * project's php constraint decides, or the user picks interactively.
+ *
+ * @throws If no installation is found or none matches the selector.
+ */
+async function resolveInstallation(
+    selector: string | undefined,
+    interactive: boolean,
+    installations: PhpInstallation[] = scanPhpInstallations()
+): Promise<PhpInstallation> {
+    if (installations.length === 0) {
+        throw new Error('No PHP installations found');
+    }
+
+    if (selector) {
+        const index = /^\d+$/.test(selector) ? parseInt(selector, 10) - 1 : -1;
+        const needle = selector.toLowerCase();
+        const matching = installations[index] || installations.find(inst =>
+            inst.version.startsWith(selector) ||
+            inst.environment.toLowerCase() === needle ||
+            inst.path.toLowerCase().includes(needle)
+        );
+        if (!matching) {
+            throw new Error(`No PHP installation matches "${selector}" (see pia --list)`);
+        }
+        return matching;
+    }
+
+    const phpConstraint = findProjectConfig()?.config.php;
+    const preferred = phpConstraint ?
+        installations.find(inst => satisfiesVersionConstraint(inst.version, phpConstraint)) :
+        undefined;
+    if (!preferred && interactive && process.stdin.isTTY && installations.length > 1) {
+        displayPhpInstallations(installations);
+        return selectPhpInstallation(installations);
+    }
+    return preferred || installations[0];
+}
+
+/**
+ * Asks a yes/no question (defaults to no)
+ */
+async function confirm(question: string): Promise<boolean> {
+    return new Promise((resolve) => {
+        const rl = createInterface({
+            input: process.stdin,
+            output: process.stdout
+        });
+
+        rl.question(`${colors.bright}${colors.blue}${question} [y/N] ${colors.reset}`, (answer) => {
+            rl.close();
+            resolve(/^y(es)?$/i.test(answer.trim()));
+        });
+    });
+}
+
+/**
+ * Installs missing extension packages for an installation, then enables the extensions
+ * and checks that PHP loads them
+ */
+async function extInstallCommand(
+    extensions: string[],
+    options: { installation?: string; profile?: string; print?: boolean; yes?: boolean; interactive?: boolean; pecl?: boolean; sourceDir?: string; backupDir?: string }
+): Promise<void> {
+    try {
+        const interactive = options.interactive !== false;
+        const installation = await resolveInstallation(options.installation, interactive && !options.print);
+        console.log(`${colors.bright}🎯 ${installation.environment} PHP ${installation.version}${colors.reset} ${colors.white}(${installation.iniPath})${colors.reset}`);
+
+        // Without arguments, install what the profile wants
+        let requested = extensions;
+        if (requested.length === 0) {
+            const projectConfig = findProjectConfig();
+            let profile = resolveProfile(options.profile || projectConfig?.config.profile, projectConfig?.config.profiles);
+            if (projectConfig) {
+                profile = applyProjectConfig(profile, projectConfig.config);
+            }
+            requested = [...profile.essentialExtensions, ...profile.optionalExtensions];
+        }
+
+        // PECL builds cover custom PHP builds and versions the distribution does not package
+        if (options.pecl || options.sourceDir) {
+            await peclInstall(installation, requested, options);
+            return;
+        }
+
+        const plan = planExtensionInstall(requested, installation.version);
+        if (!plan.manager) {
+            console.log(`${colors.red}❌ No supported package manager detected (set PIA_PACKAGE_MANAGER to apt, dnf, apk, pacman or brew, or build with --pecl)${colors.reset}\n`);
+            process.exit(1);
+        }
+
+        console.log(`${colors.bright}📦 Install plan (${plan.manager.label}):${colors.reset}`);
+        plan.installed.forEach(({ extension, packageName }) => console.log(`   ${colors.green}✓${colors.reset} ${extension.padEnd(12)} ${colors.white}${packageName} (installed)${colors.reset}`));
+        plan.toInstall.forEach(({ extension, packageName }) => console.log(`   ${colors.yellow}+${colors.reset} ${extension.padEnd(12)} ${colors.cyan}${packageName}${colors.reset}`));
+
+        // Installed packages may still be disabled for this installation
+        const installed = plan.installed.map(assignment => assignment.extension);
+        if (plan.commands.length === 0) {
+            console.log(`\n${colors.green}✅ All requested extension packages are installed${colors.reset}`);
+            if (options.print || installed.length === 0) {
+                console.log('');
+                return;
+            }
+            await enableInstalledExtensions(installation, installed, options.backupDir);
+            return;
+        }
+
+        if (options.print) {
+            console.log('');
+            plan.commands.forEach(command => console.log(command.join(' ')));
+            return;
+        }
+
+        console.log(`\n${colors.bright}Command:${colors.reset} ${colors.green}${plan.commands.map(command => command.join(' ')).join(' && ')}${colors.reset}`);
+        if (!options.yes) {
+            if (!interactive || !process.stdin.isTTY) {
+                console.log(`${colors.red}❌ Confirmation required: re-run with --yes, or with --print to only show the commands${colors.reset}\n`);
+                process.exit(1);
+            }
+            if (!await confirm('Install these packages?')) {
+                console.log(`${colors.yellow}Cancelled, nothing was installed${colors.reset}\n`);
+                return;
+            }
+        }
+
+        const result = executeInstallPlan(plan);
+        if (!result.success) {
+            console.log(`${colors.red}❌ ${result.command.join(' ')} failed (exit code ${result.exitCode})${colors.reset}\n`);
+            process.exit(1);
+        }
+
+        await enableInstalledExtensions(installation, [...new Set([...installed, ...plan.toInstall.map(assignment => assignment.extension)])], options.backupDir);
+    } catch (error: any) {
+        console.log(`${colors.red}❌ Error: ${error.message}${colors.reset}\n`);
+        process.exit(1);
+    }
+}
+
+/**
+ * Builds extensions from PECL sources with the installation's phpize/php-config
+ */
+async function peclInstall(
+    installation: PhpInstallation,
+    extensions: string[],
+    options: { sourceDir?: string; print?: boolean; yes?: boolean; interactive?: boolean; backupDir?: string }
+): Promise<void> {
+    const loaded = getExtensionsLoaded(installation.phpExecutable, extensions, ['-c', installation.iniPath]);
+    const toBuild = extensions.filter(extension => !loaded[extension]);
+    extensions.filter(extension => loaded[extension]).forEach(extension => {
+        console.log(`   ${colors.green}✓${colors.reset} ${extension.padEnd(12)} ${colors.white}(already loaded)${colors.reset}`);
+    });
+    if (toBuild.length === 0) {
+        console.log(`\n${colors.green}✅ All requested extensions are loaded${colors.reset}\n`);
+        return;
+    }
+
+    const tools = findBuildTools(installation);
+    const source = options.sourceDir ? `sources in ${options.sourceDir}` : 'the PECL cache';
+    console.log(`${colors.bright}🔨 Build plan (${tools.phpize}, ${source}):${colors.reset}`);
+    toBuild.forEach(extension => console.log(`   ${colors.yellow}+${colors.reset} ${extension.padEnd(12)} ${colors.cyan}→ ${path.join(installation.extensionDir, `${extension}.so`)}${colors.reset}`));
+
+    if (options.print) {
+        console.log('');
+        toBuild.forEach(extension => {
+            console.log(`${tools.pecl || 'pecl'} download ${extension} && tar -xzf ${extension}-*.tgz && cd ${extension}-*/ && ${tools.phpize} && ./configure --with-php-config=${tools.phpConfig} && make && cp modules/${extension}.so ${installation.extensionDir}/ && cd ..`);
+        });
+        return;
+    }
+
+    if (!options.yes) {
+        if (options.interactive === false || !process.stdin.isTTY) {
+            console.log(`${colors.red}❌ Confirmation required: re-run with --yes, or with --print to only show the commands${colors.reset}\n`);
+            process.exit(1);
+        }
+        if (!await confirm('Build and install these extensions?')) {
+            console.log(`${colors.yellow}Cancelled, nothing was built${colors.reset}\n`);
+            return;
+        }
+    }
+
+    const built: string[] = [];
+    for (const extension of toBuild) {
+        const result = await buildPeclExtension(installation, extension, { sourceDir: options.sourceDir });
+        built.push(result.extension);
+    }
+
+    await enableInstalledExtensions(installation, built, options.backupDir);
+}
+
+/**
+ * Enables freshly installed extensions (and only those, with their prerequisites) in the
+ * installation's configuration and checks that PHP loads them
+ */
+async function enableInstalledExtensions(installation: PhpInstallation, installed: string[], backupDir?: string): Promise<void> {
+    const validation = validatePhpInstallation(installation);
+    const result = await enablePhpExtensions(installation, installed, validation.needsSudo, { backupDir });
+    if (result.rolledBack) {
+        console.log(`\n${colors.red}❌ Installed, but enabling ${installed.join(', ')} broke PHP startup and was rolled back${colors.reset}\n`);
+        process.exit(1);
+    }
+
+    const loaded = getExtensionsLoaded(installation.phpExecutable, installed, ['-c', installation.iniPath]);
+    const notLoaded = installed.filter(extension => !loaded[extension]);
+    if (notLoaded.length > 0) {
+        console.log(`\n${colors.red}❌ Installed but not loaded by PHP: ${notLoaded.join(', ')}${colors.reset}`);
+        console.log(`${colors.yellow}💡 Check the startup output of: ${colors.green}${installation.phpExecutable} -m${colors.reset}\n`);
+        process.exit(1);
+    }
+    console.log(`\n${colors.green}${colors.bright}🎉 Installed and loaded: ${installed.join(', ')}${colors.reset}\n`);
+}
+
+/**
+ * Lists the extensions of an installation with their state
+ */
+async function extListCommand(options: { installation?: string; profile?: string; interactive?: boolean }): Promise<void> {
+    try {
+        const installation = await resolveInstallation(options.installation, options.interactive !== false);
+        console.log(`${colors.bright}🎯 ${installation.environment} PHP ${installation.version}${colors.reset} ${colors.white}(${installation.iniPath})${colors.reset}\n`);
+
+        // The profile's extensions show up as package-missing when they are not installed
+        const projectConfig = findProjectConfig();
+        let profile = resolveProfile(options.profile || projectConfig?.config.profile, projectConfig?.config.profiles);
+        if (projectConfig) {
+            profile = applyProjectConfig(profile, projectConfig.config);
+        }
+        const statuses = await listPhpExtensions(installation, [...profile.essentialExtensions, ...profile.optionalExtensions]);
+
+        const stateColors: Record<ExtensionState, string> = {
+            'loaded': colors.green,
+            'file-enabled': colors.red,
+            'available': colors.cyan,
+            'package-missing': colors.yellow,
+            'compiled-in': colors.white
+        };
+        for (const status of statuses) {
+            const notes = [
+                status.zend ? 'zend_extension' : '',
+                status.otherFile ? 'loaded from another configuration file' : '',
+                status.state === 'file-enabled' ? 'enabled but PHP does not load it' : ''
+            ].filter(Boolean);
+            const marker = ['available', 'package-missing'].includes(status.state) ? '○' : '●';
+            console.log(`   ${status.name.padEnd(14)} ${stateColors[status.state]}${marker} ${status.state.padEnd(15)}${colors.reset} ${colors.white}${notes.join(', ')}${colors.reset}`);
+        }
+
+        const count = (state: ExtensionState) => statuses.filter(status => status.state === state).length;
+        console.log(`\n${colors.bright}📊 ${count('loaded')} loaded, ${count('compiled-in')} compiled in, ${count('available')} available, ${count('package-missing')} missing, ${count('file-enabled')} failing to load${colors.reset}\n`);
+    } catch (error: any) {
+        console.log(`${colors.red}❌ Error: ${error.message}${colors.reset}\n`);
+        process.exit(1);
+    }
+}
+
+/**
+ * Enables or disables extensions in the selected installation. Exits with status 1 when
+ * an extension could not be switched or PHP does not report the expected state.
+ */
+async function extToggleCommand(
+    action: 'enable' | 'disable',
+    extensions: string[],
+    options: { installation?: string; interactive?: boolean; dryRun?: boolean; backupDir?: string }
+): Promise<void> {
+    if (extensions.length === 0) {
+        console.log(`${colors.red}❌ Usage: pia ext ${action} <extension...> [--installation <x>] [--dry-run]${colors.reset}\n`);
+        process.exit(1);
+    }
+
+    try {
+        const installation = await resolveInstallation(options.installation, options.interactive !== false);
+        console.log(`${colors.bright}🎯 ${installation.environment} PHP ${installation.version}${colors.reset} ${colors.white}(${installation.iniPath})${colors.reset}`);
+
+        const useSudo = validatePhpInstallation(installation).needsSudo;
+        const toggle = action === 'enable' ? enablePhpExtensions : disablePhpExtensions;
+        const result = await toggle(installation, extensions, useSudo, { dryRun: options.dryRun, backupDir: options.backupDir });
+
+        if (result.rolledBack || result.missing.length > 0 || (result.verification && !result.verification.ok)) {
+            if (result.verification && !result.verification.ok) {
+                console.log(`${colors.yellow}💡 Check the startup output of: ${colors.green}${installation.phpExecutable} -m${colors.reset}`);
+            }
+            console.log('');
+            process.exit(1);
+        }
+        console.log('');
+    } catch (error: any) {
+        console.log(`${colors.red}❌ Error: ${error.message}${colors.reset}\n`);
+        process.exit(1);
+    }
+}
+
+/**
+ * Switches Xdebug between debug, coverage, profile and off, or shows its current settings
+ * when no mode is given
+ */
+async function xdebugCommand(mode: string | undefined, options: XdebugOptions & { installation?: string; interactive?: boolean }): Promise<void> {
+    if (mode && !XDEBUG_MODES.includes(mode as XdebugMode)) {
+        console.log(`${colors.red}❌ Usage: pia xdebug [${XDEBUG_MODES.join('|')}] [--host <host>] [--port <port>] [--output-dir <dir>]${colors.reset}\n`);
+        process.exit(1);
+    }
+
+    try {
+        const installation = await resolveInstallation(options.installation, options.interactive !== false);
+        console.log(`${colors.bright}🎯 ${installation.environment} PHP ${installation.version}${colors.reset} ${colors.white}(${installation.iniPath})${colors.reset}`);
+
+        const useSudo = validatePhpInstallation(installation).needsSudo;
+        if (!mode) {
+            await displayXdebugStatus(installation, useSudo);
+            console.log('');
+            return;
+        }
+
+        const result = await switchXdebugMode(installation, mode as XdebugMode, useSudo, options);
+        if (!result.ok) {
+            console.log('');
+            process.exit(1);
+        }
+        if (!options.dryRun) {
+            console.log(`\n${colors.green}${colors.bright}🎉 Xdebug ${mode === 'off' ? 'is off' : `is in ${mode} mode`}${colors.reset}\n`);
+        }
+    } catch (error: any) {
+        console.log(`${colors.red}❌ Error: ${error.message}${colors.reset}\n`);
+        process.exit(1);
+    }
+}
+
+/**
+ * Checks every PHP installation and prints the findings grouped by severity, or as JSON.
+ * Exits with status 1 when there are errors.
+ */
+async function doctorCommand(options: { installation?: string; profile?: string; json?: boolean }): Promise<void> {
+    try {
+        const installations = scanPhpInstallations(!!options.json);
+        const selected = installations.length > 0 ? await resolveInstallation(options.installation, false, installations) : null;
+
+        const projectConfig = findProjectConfig();
+        let profile = resolveProfile(options.profile || projectConfig?.config.profile, projectConfig?.config.profiles);
+        if (projectConfig) {
+            profile = applyProjectConfig(profile, projectConfig.config);
+        }
+
+        const report = runDoctor(installations, selected, profile);
+        if (options.json) {
+            console.log(JSON.stringify(report, null, 2));
+        } else {
+            displayDoctorReport(report);
+        }
+        if (report.counts.error > 0) {
+            process.exit(1);
+        }
+    } catch (error: any) {
+        if (options.json) {
+            console.log(JSON.stringify({ error: error.message }, null, 2));
+        } else {
+            console.error(`${colors.red}❌ ${error.message}${colors.reset}\n`);
+        }
+        process.exit(1);
+    }
+}
+
+/**
+ * Prints directives as php.ini sets them and as PHP reports them at runtime
+ */
+async function getCommand(keys: string[], options: { installation?: string; interactive?: boolean }): Promise<void> {
+    if (keys.length === 0) {
+        console.log(`${colors.red}❌ Usage: pia get <directive...> [--installation <x>]${colors.reset}\n`);
+        process.exit(1);
+    }
+
+    try {
+        const installation = await resolveInstallation(options.installation, options.interactive !== false);
+        console.log(`${colors.bright}🎯 ${installation.environment} PHP ${installation.version}${colors.reset} ${colors.white}(${installation.iniPath})${colors.reset}\n`);
+        displayDirectiveReadings(await readDirectives(installation, keys));
+        console.log('');
+    } catch (error: any) {
+        console.log(`${colors.red}❌ Error: ${error.message}${colors.reset}\n`);
+        process.exit(1);
+    }
+}
+
+/**
+ * Sets (key=value arguments) or comments out (key arguments) directives in the selected
+ * installation's php.ini. Exits with status 1 when nothing could be written or PHP does
+ * not report the new values.
+ */
+async function editDirectivesCommand(
+    action: 'set' | 'unset',
+    args: string[],
+    options: { installation?: string; interactive?: boolean; dryRun?: boolean; force?: boolean; backupDir?: string }
+): Promise<void> {
+    if (args.length === 0) {
+        const usage = action === 'set' ? 'pia set <key=value...>' : 'pia unset <directive...>';
+        console.log(`${colors.red}❌ Usage: ${usage} [--installation <x>] [--dry-run]${colors.reset}\n`);
+        process.exit(1);
+    }
+
+    try {
+        const settings = action === 'set' ? parseDirectiveAssignments(args) : {};
+        const installation = await resolveInstallation(options.installation, options.interactive !== false);
+        console.log(`${colors.bright}🎯 ${installation.environment} PHP ${installation.version}${colors.reset} ${colors.white}(${installation.iniPath})${colors.reset}`);
+
+        const editOptions = {
+            useSudo: validatePhpInstallation(installation).needsSudo,
+            dryRun: options.dryRun,
+            force: options.force,
+            backupDir: options.backupDir
+        };
+        const result = action === 'set' ?
+            await setDirectives(installation, settings, editOptions) :
+            await unsetDirectives(installation, args, editOptions);
+
+        const failed = result.rejected.length > 0 || !result.validation.valid || result.rolledBack;
+        if (failed || (result.verification && !result.verification.ok)) {
+            if (result.verification && !result.verification.ok) {
+                console.log(`${colors.yellow}💡 Another configuration file overrides the new value, see: ${colors.green}${installation.phpExecutable} --ini${colors.reset}`);
+            }
+            console.log('');
+            process.exit(1);
+        }
+        if (result.written && action === 'unset') {
+            // The fallback value comes from PHP's default or another configuration file
+            console.log(`\n${colors.bright}🔎 Effective configuration:${colors.reset}`);
+            displayDirectiveReadings(await readDirectives(installation, result.changes.map(change => change.name), editOptions.useSudo));
+        }
+        console.log('');
+    } catch (error: any) {
+        console.log(`${colors.red}❌ Error: ${error.message}${colors.reset}\n`);
+        process.exit(1);
+    }
+}
+
+/**
+ * Gets the value of a CLI option given as --name value or --name=value
+ */
+function getOptionValue(args: string[], name: string): string | undefined {
+    const inline = args.find(arg => arg.startsWith(`${name}=`));
+    if (inline) return inline.substring(name.length + 1);
+
+    const index = args.indexOf(name);
+    return index !== -1 && index + 1 < args.length ? args[index + 1] : undefined;
+}
+
+/**
+ * Gets positional arguments, skipping flags and the values of VALUE_OPTIONS
+ */
+function getPositionalArgs(args: string[]): string[] {
+    const positionals: string[] = [];
+    for (let i = 0; i < args.length; i++) {
+        if (VALUE_OPTIONS.includes(args[i])) {
+            i++;
+        } else if (!args[i].startsWith('-')) {
+            positionals.push(args[i]);
+        }
+    }
+    return positionals;
+}
+
 // Export for programmatic use
-export { customizePhpIni, determinePhpIniPaths, scanPhpInstallations, updatePhpIni, validateSourceFile };
+export { applyProjectConfig, customizePhpIni, determinePhpIniPaths, findProjectConfig, listProfiles, resolveProfile, satisfiesVersionConstraint, scanPhpInstallations, updatePhpIni, validateSettings, validateSourceFile };
 
 // CLI execution - check if this file is being run directly
 const isMainModule = process.argv[1] && (
@@ -345,9 +1220,19 @@ if (isMainModule) {
     const hasVersion = args.includes('--version') || args.includes('-v');
     const hasList = args.includes('--list') || args.includes('-l');
     const nonInteractive = args.includes('--non-interactive');
+    const dryRun = args.includes('--dry-run');
+    const backupDir = getOptionValue(args, '--backup-dir');
+    const profile = getOptionValue(args, '--profile');
+    const configPath = getOptionValue(args, '--config');
+    const framework = getOptionValue(args, '--framework');
+    const mode = getOptionValue(args, '--mode') as ConfigMode | undefined;
+    const sapi = getOptionValue(args, '--sapi');
+    const composerOption = args.find(arg => arg === '--composer' || arg.startsWith('--composer='));
+    const composer = composerOption ? (composerOption.split('=')[1] || 'augment') as ComposerMode : undefined;
 
-    // Filter out flags to get version
-    const phpVersion = args.find(arg => !arg.startsWith('--') && !arg.startsWith('-')) || '';
+    // Filter out flags to get the subcommand or version
+    const positionals = getPositionalArgs(args);
+    const command = positionals[0] || '';
 
     if (hasHelp) {
         displayHelp();
@@ -355,8 +1240,74 @@ if (isMainModule) {
         displayVersion();
     } else if (hasList) {
         listInstallations().catch(console.error);
+    } else if (command === 'profiles') {
+        listProfilesCommand();
+    } else if (command === 'backups') {
+        if (positionals[1] === 'prune') {
+            pruneBackupsCommand(getOptionValue(args, '--keep')).catch(console.error);
+        } else {
+            listBackupsCommand();
+        }
+    } else if (command === 'restore') {
+        restoreCommand(positionals[1], backupDir).catch(console.error);
+    } else if (command === 'doctor') {
+        doctorCommand({
+            installation: getOptionValue(args, '--installation'),
+            profile,
+            json: args.includes('--json')
+        }).catch(console.error);
+    } else if (command === 'xdebug') {
+        xdebugCommand(positionals[1], {
+            installation: getOptionValue(args, '--installation'),
+            interactive: !nonInteractive,
+            clientHost: getOptionValue(args, '--host'),
+            clientPort: getOptionValue(args, '--port'),
+            outputDir: getOptionValue(args, '--output-dir'),
+            dryRun,
+            backupDir
+        }).catch(console.error);
+    } else if (command === 'get') {
+        getCommand(positionals.slice(1), {
+            installation: getOptionValue(args, '--installation'),
+            interactive: !nonInteractive
+        }).catch(console.error);
+    } else if (command === 'set' || command === 'unset') {
+        editDirectivesCommand(command, positionals.slice(1), {
+            installation: getOptionValue(args, '--installation'),
+            interactive: !nonInteractive,
+            dryRun,
+            force: args.includes('--force'),
+            backupDir
+        }).catch(console.error);
+    } else if (command === 'ext' && positionals[1] === 'install') {
+        extInstallCommand(positionals.slice(2), {
+            installation: getOptionValue(args, '--installation'),
+            profile,
+            print: args.includes('--print'),
+            yes: args.includes('--yes') || args.includes('-y'),
+            interactive: !nonInteractive,
+            pecl: args.includes('--pecl'),
+            sourceDir: getOptionValue(args, '--source'),
+            backupDir
+        }).catch(console.error);
+    } else if (command === 'ext' && positionals[1] === 'list') {
+        extListCommand({
+            installation: getOptionValue(args, '--installation'),
+            profile,
+            interactive: !nonInteractive
+        }).catch(console.error);
+    } else if (command === 'ext' && (positionals[1] === 'enable' || positionals[1] === 'disable')) {
+        extToggleCommand(positionals[1], positionals.slice(2), {
+            installation: getOptionValue(args, '--installation'),
+            interactive: !nonInteractive,
+            dryRun,
+            backupDir
+        }).catch(console.error);
+    } else if (command === 'ext') {
+        console.log(`${colors.red}❌ Usage: pia ext list | enable <extension...> | disable <extension...> | install [extension...] [--print] [--yes] [--pecl] [--source <dir>]${colors.reset}\n`);
+        process.exit(1);
     } else {
         // Execute the update
-        updatePhpIni(phpVersion, !nonInteractive).catch(console.error);
+        updatePhpIni(command, !nonInteractive, { dryRun, backupDir, profile, configPath, composer, framework, mode, sapi }).catch(console.error);
     }
 }
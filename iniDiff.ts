@@ -0,0 +1,148 @@
+/**
+ * Minimal line-based unified diff used to preview php.ini changes
+ */
+
+interface DiffOp {
+    type: ' ' | '-' | '+';
+    text: string;
+}
+
+// Above this many LCS cells the changed region is shown as a full replacement
+const MAX_LCS_CELLS = 25000000;
+
+/**
+ * Splits text into lines, ignoring the final newline and Windows line endings
+ */
+function splitLines(text: string): string[] {
+    if (text === '') return [];
+    const lines = text.split('\n').map(line => line.replace(/\r$/, ''));
+    if (lines[lines.length - 1] === '') lines.pop();
+    return lines;
+}
+
+/**
+ * Computes the edit script for the differing middle part of two line arrays
+ */
+function diffLines(a: string[], b: string[]): DiffOp[] {
+    const ops: DiffOp[] = [];
+
+    // Common prefix and suffix do not need the LCS table
+    let prefix = 0;
+    while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+
+    let suffix = 0;
+    while (
+        suffix < a.length - prefix &&
+        suffix < b.length - prefix &&
+        a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+    ) suffix++;
+
+    for (let i = 0; i < prefix; i++) ops.push({ type: ' ', text: a[i] });
+
+    const midA = a.slice(prefix, a.length - suffix);
+    const midB = b.slice(prefix, b.length - suffix);
+    const n = midA.length;
+    const m = midB.length;
+
+    if (n * m > MAX_LCS_CELLS) {
+        midA.forEach(text => ops.push({ type: '-', text }));
+        midB.forEach(text => ops.push({ type: '+', text }));
+    } else {
+        // lcs[i][j] = length of the LCS of midA[i..] and midB[j..]
+        const width = m + 1;
+        const lcs = new Uint32Array((n + 1) * width);
+        for (let i = n - 1; i >= 0; i--) {
+            for (let j = m - 1; j >= 0; j--) {
+                lcs[i * width + j] = midA[i] === midB[j] ?
+                    lcs[(i + 1) * width + j + 1] + 1 :
+                    Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+            }
+        }
+
+        let i = 0;
+        let j = 0;
+        while (i < n && j < m) {
+            if (midA[i] === midB[j]) {
+                ops.push({ type: ' ', text: midA[i] });
+                i++;
+                j++;
+            } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+                ops.push({ type: '-', text: midA[i++] });
+            } else {
+                ops.push({ type: '+', text: midB[j++] });
+            }
+        }
+        while (i < n) ops.push({ type: '-', text: midA[i++] });
+        while (j < m) ops.push({ type: '+', text: midB[j++] });
+    }
+
+    for (let i = a.length - suffix; i < a.length; i++) ops.push({ type: ' ', text: a[i] });
+
+    return ops;
+}
+
+/**
+ * Creates a unified diff between two versions of a file.
+ *
+ * @param oldText - Original content.
+ * @param newText - Updated content.
+ * @param oldLabel - Label for the original file (--- line).
+ * @param newLabel - Label for the updated file (+++ line).
+ * @param context - Number of unchanged context lines around each change.
+ * @returns The diff, or an empty string when both versions are identical.
+ */
+export function createUnifiedDiff(
+    oldText: string,
+    newText: string,
+    oldLabel: string,
+    newLabel: string,
+    context: number = 3
+): string {
+    if (oldText === newText) return '';
+
+    const ops = diffLines(splitLines(oldText), splitLines(newText));
+    const changeIndexes = ops.map((op, index) => op.type !== ' ' ? index : -1).filter(index => index !== -1);
+
+    // Only line endings differ
+    if (changeIndexes.length === 0) return '';
+
+    const output: string[] = [`--- ${oldLabel}`, `+++ ${newLabel}`];
+
+    let hunkStart = 0;
+    while (hunkStart < changeIndexes.length) {
+        // Merge changes whose context windows overlap into one hunk
+        let hunkEnd = hunkStart;
+        while (
+            hunkEnd + 1 < changeIndexes.length &&
+            changeIndexes[hunkEnd + 1] - changeIndexes[hunkEnd] <= context * 2 + 1
+        ) hunkEnd++;
+
+        const from = Math.max(0, changeIndexes[hunkStart] - context);
+        const to = Math.min(ops.length - 1, changeIndexes[hunkEnd] + context);
+
+        // Line numbers at the start of the hunk
+        let oldLine = 1;
+        let newLine = 1;
+        for (let i = 0; i < from; i++) {
+            if (ops[i].type !== '+') oldLine++;
+            if (ops[i].type !== '-') newLine++;
+        }
+
+        const body: string[] = [];
+        let oldCount = 0;
+        let newCount = 0;
+        for (let i = from; i <= to; i++) {
+            body.push(`${ops[i].type}${ops[i].text}`);
+            if (ops[i].type !== '+') oldCount++;
+            if (ops[i].type !== '-') newCount++;
+        }
+
+        const oldStart = oldCount === 0 ? oldLine - 1 : oldLine;
+        const newStart = newCount === 0 ? newLine - 1 : newLine;
+        output.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`, ...body);
+
+        hunkStart = hunkEnd + 1;
+    }
+
+    return output.join('\n') + '\n';
+}
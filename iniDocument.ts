@@ -0,0 +1,621 @@
+/**
+ * Comment- and section-preserving php.ini document model.
+ *
+ * Every line of the source file is kept verbatim (including its line ending) and only
+ * the lines that are actually modified get re-rendered, so serializing an untouched
+ * document reproduces the original file byte-for-byte.
+ */
+
+export type IniLineType = 'blank' | 'comment' | 'section' | 'directive';
+
+export interface IniLine {
+    type: IniLineType;
+    raw: string;            // Line text without the line ending
+    eol: string;            // '\n', '\r\n' or '' for a final line without newline
+    section: string;        // Owning section name ('' before the first header)
+    key?: string;           // Directive key, e.g. 'memory_limit' or 'extension[]'
+    value?: string;         // Unquoted directive value
+    quoted?: boolean;       // Whether the value was written in double quotes
+    commented?: boolean;    // True for disabled directives such as ';extension=curl'
+    indent?: string;        // Leading whitespace before the key (or comment marker)
+    separator?: string;     // The '=' including surrounding whitespace
+    comment?: string;       // Trailing inline comment, including the ';'
+}
+
+export interface IniDocument {
+    lines: IniLine[];
+    eol: string;            // Dominant line ending, used for new lines
+    bom: string;            // UTF-8 byte order mark, if the file had one
+}
+
+export interface SetDirectiveOptions {
+    section?: string;       // Section the directive belongs to (defaults to its owning section)
+    quote?: boolean;        // Force the value to be written in double quotes
+}
+
+export type SetDirectiveResult = 'added' | 'updated' | 'unchanged';
+
+export type EnableExtensionResult = 'already-enabled' | 'uncommented' | 'added';
+
+const SECTION_PATTERN = /^\s*\[([^\]]+)\]\s*(;.*)?$/;
+const KEY_PATTERN = '[A-Za-z0-9_.\\-]+(?:\\[[^\\]]*\\])?';
+const DIRECTIVE_PATTERN = new RegExp(`^(\\s*)(${KEY_PATTERN})(\\s*=\\s*)(.*)$`);
+// Stock php.ini files disable directives as ';key=value' (at most one space after the
+// marker). Indented examples such as ';   extension=mysqli' are documentation, not toggles.
+const COMMENTED_DIRECTIVE_PATTERN = new RegExp(`^(\\s*);[ ]?(${KEY_PATTERN})(\\s*=\\s*)(.*)$`);
+
+const EXTENSION_KEYS = ['extension', 'zend_extension'];
+
+/**
+ * Owning section of directive prefixes, named as in the stock php.ini-development/production
+ */
+const DIRECTIVE_SECTIONS: Record<string, string> = {
+    'cli_server.': 'CLI Server',
+    'date.': 'Date',
+    'filter.': 'filter',
+    'iconv.': 'iconv',
+    'imap.': 'imap',
+    'intl.': 'intl',
+    'sqlite3.': 'sqlite3',
+    'pcre.': 'Pcre',
+    'pdo_odbc.': 'Pdo',
+    'pdo_mysql.': 'Pdo_mysql',
+    'phar.': 'Phar',
+    'mail.': 'mail function',
+    'odbc.': 'ODBC',
+    'mysqli.': 'MySQLi',
+    'mysqlnd.': 'mysqlnd',
+    'oci8.': 'OCI8',
+    'pgsql.': 'PostgreSQL',
+    'bcmath.': 'bcmath',
+    'browscap': 'browscap',
+    'session.': 'Session',
+    'zend.assertions': 'Assertion',
+    'assert.': 'Assertion',
+    'com.': 'COM',
+    'mbstring.': 'mbstring',
+    'gd.': 'gd',
+    'exif.': 'exif',
+    'tidy.': 'Tidy',
+    'soap.': 'soap',
+    'sysvshm.': 'sysvshm',
+    'ldap.': 'ldap',
+    'dba.': 'dba',
+    'opcache.': 'opcache',
+    'curl.': 'curl',
+    'openssl.': 'openssl',
+    'ffi.': 'ffi',
+    'SMTP': 'mail function',
+    'smtp_port': 'mail function',
+    'sendmail_from': 'mail function',
+    'sendmail_path': 'mail function'
+};
+
+/**
+ * Splits the part after '=' into value, quoting and trailing comment
+ */
+function splitValue(rest: string): { value: string; quoted: boolean; comment: string } {
+    const trimmed = rest.replace(/^\s+/, '');
+
+    if (trimmed.startsWith('"')) {
+        let end = 1;
+        while (end < trimmed.length && !(trimmed[end] === '"' && trimmed[end - 1] !== '\\')) {
+            end++;
+        }
+        const value = trimmed.substring(1, end);
+        const remainder = trimmed.substring(end + 1);
+        const commentIndex = remainder.indexOf(';');
+        return {
+            value,
+            quoted: true,
+            comment: commentIndex !== -1 ? remainder.substring(commentIndex) : ''
+        };
+    }
+
+    const commentIndex = trimmed.indexOf(';');
+    if (commentIndex !== -1) {
+        return {
+            value: trimmed.substring(0, commentIndex).trim(),
+            quoted: false,
+            comment: trimmed.substring(commentIndex)
+        };
+    }
+
+    return { value: trimmed.trim(), quoted: false, comment: '' };
+}
+
+/**
+ * Parses a single line (without line ending) into an IniLine
+ */
+function parseLine(raw: string, eol: string, section: string): IniLine {
+    if (raw.trim() === '') {
+        return { type: 'blank', raw, eol, section };
+    }
+
+    const sectionMatch = raw.match(SECTION_PATTERN);
+    if (sectionMatch) {
+        return { type: 'section', raw, eol, section: sectionMatch[1].trim() };
+    }
+
+    const directiveMatch = raw.match(DIRECTIVE_PATTERN);
+    if (directiveMatch) {
+        const { value, quoted, comment } = splitValue(directiveMatch[4]);
+        return {
+            type: 'directive',
+            raw,
+            eol,
+            section,
+            key: directiveMatch[2],
+            value,
+            quoted,
+            commented: false,
+            indent: directiveMatch[1],
+            separator: directiveMatch[3],
+            comment
+        };
+    }
+
+    const commentedMatch = raw.match(COMMENTED_DIRECTIVE_PATTERN);
+    if (commentedMatch) {
+        const { value, quoted, comment } = splitValue(commentedMatch[4]);
+        return {
+            type: 'directive',
+            raw,
+            eol,
+            section,
+            key: commentedMatch[2],
+            value,
+            quoted,
+            commented: true,
+            indent: commentedMatch[1],
+            separator: commentedMatch[3],
+            comment
+        };
+    }
+
+    return { type: 'comment', raw, eol, section };
+}
+
+/**
+ * Re-computes the owning section of every line after insertions
+ */
+function reindexSections(doc: IniDocument): void {
+    let current = '';
+    for (const line of doc.lines) {
+        if (line.type === 'section') {
+            current = line.section;
+        } else {
+            line.section = current;
+        }
+    }
+}
+
+/**
+ * Parses php.ini content into a document that can be edited and serialized losslessly.
+ *
+ * @param content - Raw php.ini file content.
+ * @returns The parsed document.
+ */
+export function parseIniDocument(content: string): IniDocument {
+    const bom = content.startsWith('\uFEFF') ? '\uFEFF' : '';
+    const text = bom ? content.substring(1) : content;
+    const lines: IniLine[] = [];
+    let eol = '';
+    let section = '';
+    let pos = 0;
+
+    while (pos < text.length) {
+        const newline = text.indexOf('\n', pos);
+        let raw: string;
+        let lineEol: string;
+
+        if (newline === -1) {
+            raw = text.substring(pos);
+            lineEol = '';
+            pos = text.length;
+        } else {
+            const lineEnd = newline > pos && text[newline - 1] === '\r' ? newline - 1 : newline;
+            raw = text.substring(pos, lineEnd);
+            lineEol = text.substring(lineEnd, newline + 1);
+            pos = newline + 1;
+        }
+
+        if (!eol && lineEol) eol = lineEol;
+
+        const line = parseLine(raw, lineEol, section);
+        if (line.type === 'section') section = line.section;
+        lines.push(line);
+    }
+
+    return { lines, eol: eol || '\n', bom };
+}
+
+/**
+ * Serializes a document back into php.ini content.
+ */
+export function serializeIniDocument(doc: IniDocument): string {
+    return doc.bom + doc.lines.map(line => line.raw + line.eol).join('');
+}
+
+/**
+ * Formats a value for writing, quoting it when php.ini syntax requires it
+ */
+export function formatIniValue(value: string | number, forceQuote: boolean = false): string {
+    const text = String(value);
+    if (forceQuote || /[;="]/.test(text)) {
+        return `"${text.replace(/"/g, '\\"')}"`;
+    }
+    return text;
+}
+
+/**
+ * Builds a directive line, keeping the layout of the line it replaces when given
+ */
+function renderDirective(key: string, value: string | number, quote: boolean, template?: IniLine, comment?: string): string {
+    const indent = template?.indent ?? '';
+    let separator = template?.separator ?? ' = ';
+    // ';date.timezone =' has no space after '=' because the value was empty
+    if (/^\s+=$/.test(separator)) separator += ' ';
+    const trailing = comment ? ` ${comment.trim()}` : '';
+    return `${indent}${key}${separator}${formatIniValue(value, quote)}${trailing}`;
+}
+
+/**
+ * Replaces the line at the given index with new raw text, keeping its line ending
+ */
+function replaceLine(doc: IniDocument, index: number, raw: string): void {
+    const existing = doc.lines[index];
+    doc.lines[index] = parseLine(raw, existing.eol, existing.section);
+}
+
+/**
+ * Inserts raw lines before the given index
+ */
+export function insertLines(doc: IniDocument, index: number, rawLines: string[]): void {
+    if (rawLines.length === 0) return;
+
+    const atEnd = index >= doc.lines.length;
+    const last = doc.lines[doc.lines.length - 1];
+    let finalEol = doc.eol;
+
+    // The file did not end with a newline: move the missing newline to the new last line
+    if (atEnd && last && last.eol === '') {
+        last.eol = doc.eol;
+        finalEol = '';
+    }
+
+    const newLines = rawLines.map((raw, i) => parseLine(raw, i === rawLines.length - 1 ? finalEol : doc.eol, ''));
+
+    doc.lines.splice(index, 0, ...newLines);
+    reindexSections(doc);
+}
+
+/**
+ * Finds the range of a section by name (case-insensitive).
+ *
+ * @returns Header index and exclusive end index, or null when the section does not exist.
+ */
+export function findSectionRange(doc: IniDocument, name: string): { start: number; end: number } | null {
+    const target = name.toLowerCase();
+    const start = doc.lines.findIndex(line => line.type === 'section' && line.section.toLowerCase() === target);
+    if (start === -1) return null;
+
+    let end = start + 1;
+    while (end < doc.lines.length && doc.lines[end].type !== 'section') {
+        end++;
+    }
+    return { start, end };
+}
+
+/**
+ * Returns the index right after the last non-blank line of a section
+ */
+function sectionInsertIndex(doc: IniDocument, range: { start: number; end: number }): number {
+    let index = range.end;
+    while (index > range.start + 1 && doc.lines[index - 1].type === 'blank') {
+        index--;
+    }
+    return index;
+}
+
+/**
+ * Whether a section applies globally ([HOST=...] and [PATH=...] sections are scoped)
+ */
+function isGlobalSection(section: string): boolean {
+    return !/^(HOST|PATH)=/i.test(section);
+}
+
+/**
+ * Resolves the section a directive belongs to, e.g. 'opcache.enable' -> 'opcache'.
+ * Directives without a dedicated section live in [PHP].
+ */
+export function resolveDirectiveSection(key: string): string {
+    const lowerKey = key.toLowerCase();
+    for (const [prefix, section] of Object.entries(DIRECTIVE_SECTIONS)) {
+        const lowerPrefix = prefix.toLowerCase();
+        if (lowerPrefix.endsWith('.') ? lowerKey.startsWith(lowerPrefix) : lowerKey === lowerPrefix) {
+            return section;
+        }
+    }
+    return 'PHP';
+}
+
+/**
+ * Finds the index to insert a new line into a section, creating the section when the
+ * document is organized in sections but does not have this one yet
+ */
+function ensureSectionInsertIndex(doc: IniDocument, section: string): number {
+    const range = findSectionRange(doc, section);
+    if (range) return sectionInsertIndex(doc, range);
+
+    const hasSections = doc.lines.some(line => line.type === 'section');
+    if (!hasSections) return doc.lines.length;
+
+    const lastLine = doc.lines[doc.lines.length - 1];
+    const separator = lastLine && lastLine.type !== 'blank' ? [''] : [];
+    insertLines(doc, doc.lines.length, [...separator, `[${section}]`]);
+    return doc.lines.length;
+}
+
+/**
+ * Finds the index right after the extension block (the stock ';extension=' lines),
+ * falling back to the end of the [PHP] section
+ */
+function extensionInsertIndex(doc: IniDocument): number {
+    let last = -1;
+    doc.lines.forEach((line, index) => {
+        if (line.type === 'directive' && EXTENSION_KEYS.includes(line.key!.toLowerCase()) && isGlobalSection(line.section)) {
+            last = index;
+        }
+    });
+
+    return last !== -1 ? last + 1 : ensureSectionInsertIndex(doc, 'PHP');
+}
+
+/**
+ * Finds directive lines for a key.
+ *
+ * @param doc - The document to search.
+ * @param key - Directive key (case-insensitive).
+ * @param includeCommented - Also return disabled (';key=value') lines.
+ * @returns Line indexes in file order.
+ */
+export function findDirectiveLines(doc: IniDocument, key: string, includeCommented: boolean = false): number[] {
+    const target = key.toLowerCase();
+    const indexes: number[] = [];
+
+    doc.lines.forEach((line, index) => {
+        if (line.type !== 'directive' || line.key?.toLowerCase() !== target) return;
+        if (line.commented && !includeCommented) return;
+        if (!isGlobalSection(line.section)) return;
+        indexes.push(index);
+    });
+
+    return indexes;
+}
+
+/**
+ * Gets the effective value of a directive (PHP uses the last active occurrence)
+ */
+export function getDirectiveValue(doc: IniDocument, key: string): string | undefined {
+    const indexes = findDirectiveLines(doc, key);
+    return indexes.length > 0 ? doc.lines[indexes[indexes.length - 1]].value : undefined;
+}
+
+/**
+ * Sets a directive, updating the active line, uncommenting the stock line or appending
+ * a new line to the directive's section.
+ *
+ * @param doc - The document to modify.
+ * @param key - Directive key.
+ * @param value - New value.
+ * @param options - Target section and quoting.
+ * @returns Whether the directive was added, updated or already had the value.
+ */
+export function setDirective(
+    doc: IniDocument,
+    key: string,
+    value: string | number,
+    options: SetDirectiveOptions = {}
+): SetDirectiveResult {
+    const section = options.section || resolveDirectiveSection(key);
+    const text = String(value);
+
+    // Update the effective (last) active occurrence
+    const active = findDirectiveLines(doc, key);
+    if (active.length > 0) {
+        const index = active[active.length - 1];
+        const line = doc.lines[index];
+        if (line.value === text && (!options.quote || line.quoted)) {
+            return 'unchanged';
+        }
+        replaceLine(doc, index, renderDirective(line.key!, value, options.quote || !!line.quoted, line, line.comment));
+        return 'updated';
+    }
+
+    // Uncomment the stock line in the directive's own section
+    const sectionRange = findSectionRange(doc, section);
+    const candidate = sectionRange ?
+        findDirectiveLines(doc, key, true).find(index => index > sectionRange.start && index < sectionRange.end) :
+        undefined;
+
+    if (candidate !== undefined) {
+        const line = doc.lines[candidate];
+        replaceLine(doc, candidate, renderDirective(line.key!, value, options.quote || !!line.quoted, line));
+        return 'updated';
+    }
+
+    // Append to the end of the section, creating it when missing
+    insertLines(doc, ensureSectionInsertIndex(doc, section), [renderDirective(key, value, !!options.quote)]);
+    return 'added';
+}
+
+/**
+ * Comments out a directive line, optionally adding a note explaining why
+ */
+export function commentOutLine(doc: IniDocument, index: number, note?: string): void {
+    const line = doc.lines[index];
+    if (line.type !== 'directive' || line.commented) return;
+
+    const body = line.raw.trim();
+    const suffix = note && !line.comment ? ` ; ${note}` : '';
+    replaceLine(doc, index, `${line.indent ?? ''};${body}${suffix}`);
+}
+
+/**
+ * Comments out every active occurrence of a directive.
+ *
+ * @returns Number of lines commented out.
+ */
+export function commentOutDirective(doc: IniDocument, key: string, note?: string): number {
+    const indexes = findDirectiveLines(doc, key);
+    indexes.forEach(index => commentOutLine(doc, index, note));
+    return indexes.length;
+}
+
+/**
+ * Normalizes an extension= value (php_curl.dll, "curl.so", /path/opcache.so) to its name
+ */
+export function extensionNameFromValue(value: string): string {
+    const base = value.replace(/\\/g, '/').split('/').pop() || value;
+    return base
+        .replace(/\.(dll|so|dylib)$/i, '')
+        .replace(/^php_/i, '')
+        .toLowerCase();
+}
+
+/**
+ * Finds extension= and zend_extension= lines loading the given extension. Lines in
+ * [HOST=...] and [PATH=...] sections only apply to some requests and are skipped.
+ *
+ * @param doc - The document to search.
+ * @param extension - Extension name, e.g. 'curl'.
+ * @param includeCommented - Also return disabled lines.
+ */
+export function findExtensionLines(doc: IniDocument, extension: string, includeCommented: boolean = false): number[] {
+    const target = extension.toLowerCase();
+    const indexes: number[] = [];
+
+    doc.lines.forEach((line, index) => {
+        if (line.type !== 'directive' || !EXTENSION_KEYS.includes(line.key!.toLowerCase())) return;
+        if (line.commented && !includeCommented) return;
+        if (!isGlobalSection(line.section)) return;
+        if (extensionNameFromValue(line.value || '') !== target) return;
+        indexes.push(index);
+    });
+
+    return indexes;
+}
+
+/**
+ * Lists the names of all extensions loaded by active extension lines
+ */
+export function getEnabledExtensions(doc: IniDocument): string[] {
+    return doc.lines
+        .filter(line => line.type === 'directive' && !line.commented && EXTENSION_KEYS.includes(line.key!.toLowerCase()) && isGlobalSection(line.section))
+        .map(line => extensionNameFromValue(line.value || ''));
+}
+
+/**
+ * Whether an active extension line loads the given extension
+ */
+export function isExtensionEnabled(doc: IniDocument, extension: string): boolean {
+    return findExtensionLines(doc, extension).length > 0;
+}
+
+/**
+ * Enables an extension by uncommenting its stock line or adding a new line next to the
+ * existing extension block.
+ *
+ * @param doc - The document to modify.
+ * @param extension - Extension name.
+ * @param zend - Whether the extension must be loaded with zend_extension=.
+ */
+export function enableExtension(doc: IniDocument, extension: string, zend: boolean): EnableExtensionResult {
+    if (isExtensionEnabled(doc, extension)) {
+        return 'already-enabled';
+    }
+
+    const directive = zend ? 'zend_extension' : 'extension';
+    const commented = findExtensionLines(doc, extension, true);
+
+    if (commented.length > 0) {
+        const line = doc.lines[commented[0]];
+        // Drop notes such as '; Disabled - package not installed' when re-enabling
+        const comment = line.comment && !/^;\s*Disabled/i.test(line.comment) ? line.comment : undefined;
+        replaceLine(doc, commented[0], renderDirective(directive, line.value || extension, !!line.quoted, line, comment));
+        return 'uncommented';
+    }
+
+    insertLines(doc, extensionInsertIndex(doc), [`${directive}=${extension}`]);
+    return 'added';
+}
+
+/**
+ * Comments out every active line loading the given extension.
+ *
+ * @returns Number of lines commented out.
+ */
+export function disableExtension(doc: IniDocument, extension: string, note?: string): number {
+    const indexes = findExtensionLines(doc, extension);
+    indexes.forEach(index => commentOutLine(doc, index, note));
+    return indexes.length;
+}
+
+/**
+ * Rewrites active lines so the extension uses the right directive (extension= vs zend_extension=).
+ *
+ * @returns Number of lines rewritten.
+ */
+export function setExtensionDirective(doc: IniDocument, extension: string, zend: boolean): number {
+    const directive = zend ? 'zend_extension' : 'extension';
+    let changed = 0;
+
+    for (const index of findExtensionLines(doc, extension)) {
+        const line = doc.lines[index];
+        if (line.key!.toLowerCase() === directive) continue;
+        replaceLine(doc, index, renderDirective(directive, line.value || extension, !!line.quoted, line, line.comment));
+        changed++;
+    }
+
+    return changed;
+}
+
+/**
+ * Rearranges the active extension lines so they load in the given order. The lines swap
+ * places among the positions extension lines already occupy, so comments and the rest of
+ * the file stay where they are.
+ *
+ * @param doc - The document to modify.
+ * @param order - Names of the enabled extensions in load order (as from getEnabledExtensions).
+ * @returns Number of lines that moved.
+ */
+export function reorderExtensionLines(doc: IniDocument, order: string[]): number {
+    const slots: number[] = [];
+    doc.lines.forEach((line, index) => {
+        if (line.type === 'directive' && !line.commented && EXTENSION_KEYS.includes(line.key!.toLowerCase()) && isGlobalSection(line.section)) {
+            slots.push(index);
+        }
+    });
+
+    // Queue the raw lines per extension, so duplicate lines keep their relative order
+    const rawByName = new Map<string, string[]>();
+    for (const index of slots) {
+        const name = extensionNameFromValue(doc.lines[index].value || '');
+        rawByName.set(name, [...(rawByName.get(name) || []), doc.lines[index].raw]);
+    }
+
+    const ordered = order.flatMap(name => rawByName.get(name)?.splice(0) || []);
+    // Lines the order does not mention go after the ordered ones
+    const rest = [...rawByName.values()].flat();
+    const rawLines = [...ordered, ...rest];
+
+    let moved = 0;
+    slots.forEach((index, i) => {
+        if (doc.lines[index].raw !== rawLines[i]) {
+            replaceLine(doc, index, rawLines[i]);
+            moved++;
+        }
+    });
+    return moved;
+}
@@ -0,0 +1,106 @@
+import fs from 'fs-extra';
+import { removeFileWithSudo, writeFileWithSudo } from './fileUtils';
+import { checkPhpStartup, StartupIssue } from './phpRuntime';
+
+// ANSI color codes for consistent styling
+const colors = {
+    reset: '\x1b[0m',
+    bright: '\x1b[1m',
+    red: '\x1b[31m',
+    green: '\x1b[32m',
+    yellow: '\x1b[33m',
+    blue: '\x1b[34m',
+    cyan: '\x1b[36m',
+    white: '\x1b[37m'
+};
+
+export interface IniTransactionOptions {
+    useSudo?: boolean;
+    phpExecutable?: string;     // PHP binary used to verify the new configuration
+    iniArgs?: string[];         // Arguments selecting the configuration (defaults to ['-c', filePath])
+    env?: Record<string, string>;
+}
+
+export interface IniTransactionResult {
+    committed: boolean;
+    rolledBack: boolean;
+    exitCode: number | null;
+    issues: StartupIssue[];     // Startup problems introduced by the new content
+}
+
+/**
+ * Writes new php.ini content as a single transaction: the content is written atomically,
+ * PHP is started with `-v` and `-m`, and the previous content is restored automatically
+ * when the change introduces startup errors or makes PHP exit with a non-zero status.
+ *
+ * Problems that already existed before the change do not trigger a rollback. A file that
+ * did not exist before (such as a new conf.d drop-in) is removed on rollback.
+ *
+ * @param filePath - Path to the ini file.
+ * @param originalContent - Content before the change (restored on failure).
+ * @param newContent - Content to apply.
+ * @param options - Sudo usage and the PHP binary used for verification.
+ */
+export async function applyIniTransaction(
+    filePath: string,
+    originalContent: string,
+    newContent: string,
+    options: IniTransactionOptions = {}
+): Promise<IniTransactionResult> {
+    const { useSudo = false, phpExecutable, env = {} } = options;
+    const iniArgs = options.iniArgs || ['-c', filePath];
+
+    // Baseline so pre-existing startup problems are not blamed on this change
+    const baseline = phpExecutable ? checkPhpStartup(phpExecutable, iniArgs, env) : null;
+    const existed = fs.existsSync(filePath);
+
+    await writeFileWithSudo(filePath, newContent, useSudo);
+
+    if (!phpExecutable || !baseline) {
+        return { committed: true, rolledBack: false, exitCode: null, issues: [] };
+    }
+
+    console.log(`${colors.cyan}🔍 Verifying PHP starts with the new configuration...${colors.reset}`);
+    const after = checkPhpStartup(phpExecutable, iniArgs, env);
+    const knownIssues = new Set(baseline.issues.map(issue => `${issue.type}|${issue.message}`));
+    const newIssues = after.issues.filter(issue => !knownIssues.has(`${issue.type}|${issue.message}`));
+    const exitRegressed = after.exitCode !== 0 && baseline.exitCode === 0;
+
+    if (newIssues.length === 0 && !exitRegressed) {
+        console.log(`${colors.green}✅ PHP starts cleanly with the new configuration${colors.reset}`);
+        return { committed: true, rolledBack: false, exitCode: after.exitCode, issues: [] };
+    }
+
+    console.log(`${colors.red}❌ PHP failed to start cleanly after the change:${colors.reset}`);
+    if (exitRegressed) {
+        console.log(`   • ${colors.red}${phpExecutable} exited with status ${after.exitCode}${colors.reset}`);
+    }
+    newIssues.forEach(issue => console.log(`   • ${colors.red}${issue.message}${colors.reset}`));
+
+    await rollBackIniFile(filePath, originalContent, existed, useSudo);
+
+    return { committed: false, rolledBack: true, exitCode: after.exitCode, issues: newIssues };
+}
+
+/**
+ * Restores an ini file to its content before a transaction, or removes it when it did not
+ * exist. Used when a change that belongs to the same transaction fails after the commit.
+ *
+ * @param filePath - Path to the ini file.
+ * @param originalContent - Content before the change.
+ * @param existed - Whether the file existed before the change.
+ * @param useSudo - Whether to use sudo for file operations.
+ * @throws If the file cannot be restored.
+ */
+export async function rollBackIniFile(filePath: string, originalContent: string, existed: boolean, useSudo: boolean = false): Promise<void> {
+    try {
+        if (existed) {
+            await writeFileWithSudo(filePath, originalContent, useSudo);
+        } else {
+            await removeFileWithSudo(filePath, useSudo);
+        }
+    } catch (error: any) {
+        throw new Error(`Rollback failed, restore ${filePath} from the latest backup (pia restore): ${error.message}`);
+    }
+    console.log(`${colors.yellow}↩️  Rolled back ${filePath} to its previous content${colors.reset}`);
+}
@@ -0,0 +1,199 @@
+import { getDirectiveDefinition } from './directiveCatalogue';
+
+export type ValidationSeverity = 'error' | 'warning';
+
+/**
+ * A problem with a php.ini value or a combination of values
+ */
+export interface ValidationIssue {
+    severity: ValidationSeverity;
+    directive: string;
+    message: string;
+    related?: string[];         // Other directives involved in a cross-directive rule
+}
+
+export interface ValidationResult {
+    valid: boolean;             // false when there is at least one error
+    errors: ValidationIssue[];
+    warnings: ValidationIssue[];
+}
+
+// Error level constants accepted in error_reporting expressions
+const ERROR_LEVELS = [
+    'E_ALL', 'E_ERROR', 'E_WARNING', 'E_PARSE', 'E_NOTICE', 'E_CORE_ERROR', 'E_CORE_WARNING',
+    'E_COMPILE_ERROR', 'E_COMPILE_WARNING', 'E_USER_ERROR', 'E_USER_WARNING', 'E_USER_NOTICE',
+    'E_STRICT', 'E_RECOVERABLE_ERROR', 'E_DEPRECATED', 'E_USER_DEPRECATED'
+];
+
+/**
+ * Parses a PHP shorthand byte value ("512", "128K", "1G", "-1") into bytes.
+ *
+ * @returns The number of bytes (-1 for unlimited), or null when the value is not valid shorthand.
+ */
+export function parseByteSize(value: string | number): number | null {
+    if (typeof value === 'number') return Number.isInteger(value) ? value : null;
+
+    const match = value.trim().match(/^(-?\d+)\s*([kmg])?$/i);
+    if (!match) return null;
+
+    const amount = parseInt(match[1], 10);
+    const multipliers: Record<string, number> = { k: 1024, m: 1024 ** 2, g: 1024 ** 3 };
+    return match[2] ? amount * multipliers[match[2].toLowerCase()] : amount;
+}
+
+/**
+ * Parses a php.ini boolean (On/Off, 1/0, true/false, yes/no, none)
+ *
+ * @returns The boolean value, or null when the value is not a boolean.
+ */
+export function parseIniBoolean(value: string | number): boolean | null {
+    const normalized = String(value).trim().toLowerCase();
+    if (['1', 'on', 'true', 'yes'].includes(normalized)) return true;
+    if (['0', 'off', 'false', 'no', 'none', ''].includes(normalized)) return false;
+    return null;
+}
+
+/**
+ * Validates a single value against the type and range in the directive catalogue.
+ * Directives that are not in the catalogue are not checked.
+ */
+export function validateDirectiveValue(key: string, value: string | number): ValidationIssue | null {
+    const definition = getDirectiveDefinition(key);
+    if (!definition) return null;
+
+    const text = String(value).trim();
+    const error = (message: string): ValidationIssue => ({ severity: 'error', directive: key, message });
+    let numeric: number | null = null;
+
+    switch (definition.type) {
+        case 'boolean':
+            if (parseIniBoolean(value) === null) return error(`${key} must be a boolean (On/Off), got "${text}"`);
+            return null;
+        case 'integer':
+            if (!/^-?\d+$/.test(text)) return error(`${key} must be an integer, got "${text}"`);
+            numeric = parseInt(text, 10);
+            break;
+        case 'float':
+            if (!/^-?\d+(\.\d+)?$/.test(text)) return error(`${key} must be a number, got "${text}"`);
+            numeric = parseFloat(text);
+            break;
+        case 'size':
+            numeric = parseByteSize(value);
+            if (numeric === null) return error(`${key} must be a byte value such as 512K, 128M or 1G, got "${text}"`);
+            break;
+        case 'boolean-or-size':
+            if (parseIniBoolean(value) !== null) return null;
+            numeric = parseByteSize(value);
+            if (numeric === null) return error(`${key} must be On, Off or a byte value such as 4096 or 16K, got "${text}"`);
+            break;
+        case 'enum':
+            if (definition.values && !definition.values.includes(text.toLowerCase())) {
+                return error(`${key} must be one of ${definition.values.filter(v => v).join(', ')}, got "${text}"`);
+            }
+            return null;
+        case 'error-level': {
+            const unknown = text.split(/[\s&|^~()]+/).filter(token => token && !/^\d+$/.test(token) && !ERROR_LEVELS.includes(token));
+            if (unknown.length > 0) return error(`${key} contains unknown error levels: ${unknown.join(', ')}`);
+            return null;
+        }
+        default:
+            return null;
+    }
+
+    if (definition.min !== undefined && numeric < definition.min) {
+        return error(`${key} must be at least ${definition.min}, got "${text}"`);
+    }
+    if (definition.max !== undefined && numeric > definition.max) {
+        return error(`${key} must be at most ${definition.max}, got "${text}"`);
+    }
+    return null;
+}
+
+/**
+ * Validates settings before they are written: each value is checked against the directive
+ * catalogue, then cross-directive rules are enforced on the effective configuration
+ * (the new settings over the current values over PHP defaults).
+ *
+ * @param settings - Settings about to be written.
+ * @param currentValue - Returns the value currently in php.ini for a directive, if any.
+ */
+export function validateSettings(
+    settings: Record<string, string | number>,
+    currentValue: (key: string) => string | undefined = () => undefined
+): ValidationResult {
+    const issues: ValidationIssue[] = [];
+
+    for (const [key, value] of Object.entries(settings)) {
+        const issue = validateDirectiveValue(key, value);
+        if (issue) issues.push(issue);
+    }
+
+    // Effective value of a directive after the change
+    const effective = (key: string): string | undefined =>
+        key in settings ? String(settings[key]) : currentValue(key) ?? getDirectiveDefinition(key)?.default;
+    const bytes = (key: string): number | null => {
+        const value = effective(key);
+        return value !== undefined ? parseByteSize(value) : null;
+    };
+    // Only report a rule when one of its directives is being changed
+    const touches = (...keys: string[]) => keys.some(key => key in settings);
+
+    const uploadMax = bytes('upload_max_filesize');
+    const postMax = bytes('post_max_size');
+    const memoryLimit = bytes('memory_limit');
+
+    // post_max_size = 0 and memory_limit = -1 mean unlimited
+    if (touches('upload_max_filesize', 'post_max_size') && uploadMax !== null && postMax !== null && postMax > 0 && uploadMax > postMax) {
+        issues.push({
+            severity: 'error',
+            directive: 'upload_max_filesize',
+            related: ['post_max_size'],
+            message: `upload_max_filesize (${effective('upload_max_filesize')}) is larger than post_max_size (${effective('post_max_size')}), uploads of that size can never succeed`
+        });
+    }
+
+    if (touches('post_max_size', 'memory_limit') && postMax !== null && memoryLimit !== null && memoryLimit >= 0 && postMax > memoryLimit) {
+        issues.push({
+            severity: 'error',
+            directive: 'post_max_size',
+            related: ['memory_limit'],
+            message: `post_max_size (${effective('post_max_size')}) is larger than memory_limit (${effective('memory_limit')})`
+        });
+    }
+
+    if (touches('memory_limit') && memoryLimit !== null && memoryLimit >= 0 && memoryLimit < 32 * 1024 ** 2) {
+        issues.push({
+            severity: 'warning',
+            directive: 'memory_limit',
+            message: `memory_limit (${effective('memory_limit')}) is below 32M, Composer and most frameworks will run out of memory`
+        });
+    }
+
+    const opcacheMemory = parseInt(effective('opcache.memory_consumption') || '', 10);
+    const internedStrings = parseInt(effective('opcache.interned_strings_buffer') || '', 10);
+    if (touches('opcache.memory_consumption', 'opcache.interned_strings_buffer') &&
+        !isNaN(opcacheMemory) && !isNaN(internedStrings) && internedStrings >= opcacheMemory) {
+        issues.push({
+            severity: 'error',
+            directive: 'opcache.interned_strings_buffer',
+            related: ['opcache.memory_consumption'],
+            message: `opcache.interned_strings_buffer (${internedStrings}M) must be smaller than opcache.memory_consumption (${opcacheMemory}M)`
+        });
+    }
+
+    const gcMaxLifetime = parseInt(effective('session.gc_maxlifetime') || '', 10);
+    const cookieLifetime = parseInt(effective('session.cookie_lifetime') || '', 10);
+    if (touches('session.gc_maxlifetime', 'session.cookie_lifetime') &&
+        !isNaN(gcMaxLifetime) && !isNaN(cookieLifetime) && cookieLifetime > gcMaxLifetime) {
+        issues.push({
+            severity: 'warning',
+            directive: 'session.cookie_lifetime',
+            related: ['session.gc_maxlifetime'],
+            message: `session.cookie_lifetime (${cookieLifetime}s) outlives session.gc_maxlifetime (${gcMaxLifetime}s), sessions may be collected while the cookie is still valid`
+        });
+    }
+
+    const errors = issues.filter(issue => issue.severity === 'error');
+    const warnings = issues.filter(issue => issue.severity === 'warning');
+    return { valid: errors.length === 0, errors, warnings };
+}
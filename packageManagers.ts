@@ -0,0 +1,246 @@
+import { spawnSync } from 'child_process';
+import fs from 'fs-extra';
+import { getPackageBaseName, hasOwnPackage, isPeclExtension } from './extensionCatalogue';
+
+export type PackageManagerName = 'apt' | 'dnf' | 'apk' | 'pacman' | 'brew';
+
+export interface CommandResult {
+    stdout: string;
+    exitCode: number | null;    // null when the command could not be started
+}
+
+// Runs a command without a shell; replaced with a stub in tests
+export type CommandRunner = (command: string, args: string[]) => CommandResult;
+
+/**
+ * A distribution package manager and its naming scheme for PHP extension packages
+ */
+export interface PackageManager {
+    name: PackageManagerName;
+    label: string;
+    packageNames(extension: string, phpVersion: string): string[]; // Candidates, most specific first
+    isInstalled(packageName: string, run: CommandRunner): boolean;
+    installCommand(packageNames: string[]): string[];
+}
+
+/**
+ * Runs a command and captures its output without throwing
+ */
+export const defaultCommandRunner: CommandRunner = (command, args) => {
+    const result = spawnSync(command, args, { encoding: 'utf8', timeout: 10000 });
+    return { stdout: result.stdout || '', exitCode: result.error ? null : result.status };
+};
+
+/**
+ * Splits a PHP version into the forms package names use: "8.3", "83" and "8"
+ */
+function versionParts(phpVersion: string): { majorMinor: string; compact: string; major: string } {
+    const [major = '', minor = ''] = phpVersion.split('.');
+    return {
+        majorMinor: minor ? `${major}.${minor}` : major,
+        compact: `${major}${minor}`,
+        major
+    };
+}
+
+const unique = (names: string[]): string[] => [...new Set(names)];
+
+/**
+ * Debian/Ubuntu (dpkg/apt): php8.3-curl, with php-curl as the distro default metapackage
+ */
+const apt: PackageManager = {
+    name: 'apt',
+    label: 'APT (Debian/Ubuntu)',
+    packageNames(extension, phpVersion) {
+        const name = getPackageBaseName('apt', extension);
+        const { majorMinor } = versionParts(phpVersion);
+        return unique([...(majorMinor ? [`php${majorMinor}-${name}`] : []), `php-${name}`]);
+    },
+    isInstalled(packageName, run) {
+        // dpkg-query matches the exact package; the status must be fully installed
+        const result = run('dpkg-query', ['-W', '--showformat=${Status}', packageName]);
+        return result.exitCode === 0 && result.stdout.trim() === 'install ok installed';
+    },
+    installCommand(packageNames) {
+        return ['sudo', 'apt', 'install', '-y', ...packageNames];
+    }
+};
+
+/**
+ * Fedora/RHEL (rpm/dnf): php-curl and php-pecl-redis, or php83-php-curl from Remi's collections
+ */
+const dnf: PackageManager = {
+    name: 'dnf',
+    label: 'DNF (Fedora/RHEL)',
+    packageNames(extension, phpVersion) {
+        const name = getPackageBaseName('dnf', extension);
+        const { compact } = versionParts(phpVersion);
+        const base = isPeclExtension(extension, phpVersion) ? [`php-pecl-${name}`, `php-${name}`] : [`php-${name}`];
+        const remi = compact ? base.map(packageName => `php${compact}-${packageName}`) : [];
+        return unique([...base, ...remi]);
+    },
+    isInstalled(packageName, run) {
+        return run('rpm', ['-q', packageName]).exitCode === 0;
+    },
+    installCommand(packageNames) {
+        return ['sudo', 'dnf', 'install', '-y', ...packageNames];
+    }
+};
+
+/**
+ * Alpine (apk): php83-curl and php83-pecl-redis
+ */
+const apk: PackageManager = {
+    name: 'apk',
+    label: 'apk (Alpine)',
+    packageNames(extension, phpVersion) {
+        const name = getPackageBaseName('apk', extension);
+        const { compact, major } = versionParts(phpVersion);
+        const prefixes = unique([`php${compact}`, `php${major}`]);
+        return unique(prefixes.flatMap(prefix => isPeclExtension(extension, phpVersion) ?
+            [`${prefix}-pecl-${name}`, `${prefix}-${name}`] :
+            [`${prefix}-${name}`]));
+    },
+    isInstalled(packageName, run) {
+        return run('apk', ['info', '-e', packageName]).exitCode === 0;
+    },
+    installCommand(packageNames) {
+        return ['sudo', 'apk', 'add', ...packageNames];
+    }
+};
+
+/**
+ * Arch (pacman): php-gd, php-redis, ...; bundled extensions come with the php package
+ */
+const pacman: PackageManager = {
+    name: 'pacman',
+    label: 'pacman (Arch)',
+    packageNames(extension, phpVersion) {
+        const name = getPackageBaseName('pacman', extension);
+        const { compact } = versionParts(phpVersion);
+        // Older branches are packaged in the AUR as php83 and php83-gd
+        if (!hasOwnPackage('pacman', extension)) {
+            return unique(['php', ...(compact ? [`php${compact}`] : [])]);
+        }
+        return unique([`php-${name}`, ...(compact ? [`php${compact}-${name}`] : [])]);
+    },
+    isInstalled(packageName, run) {
+        return run('pacman', ['-Q', packageName]).exitCode === 0;
+    },
+    installCommand(packageNames) {
+        return ['sudo', 'pacman', '-S', '--needed', ...packageNames];
+    }
+};
+
+/**
+ * Homebrew: bundled extensions come with php@8.3, PECL extensions are formulae of the
+ * shivammathur/extensions tap, e.g. redis@8.3
+ */
+const brew: PackageManager = {
+    name: 'brew',
+    label: 'Homebrew',
+    packageNames(extension, phpVersion) {
+        const name = getPackageBaseName('brew', extension);
+        const { majorMinor } = versionParts(phpVersion);
+        if (!isPeclExtension(extension, phpVersion)) {
+            return majorMinor ? [`php@${majorMinor}`, 'php'] : ['php'];
+        }
+        return majorMinor ? [`shivammathur/extensions/${name}@${majorMinor}`] : [`shivammathur/extensions/${name}`];
+    },
+    isInstalled(packageName, run) {
+        const result = run('brew', ['list', '--versions', packageName]);
+        return result.exitCode === 0 && result.stdout.trim() !== '';
+    },
+    installCommand(packageNames) {
+        return ['brew', 'install', ...packageNames];
+    }
+};
+
+export const PACKAGE_MANAGERS: Record<PackageManagerName, PackageManager> = { apt, dnf, apk, pacman, brew };
+
+// /etc/os-release ID and ID_LIKE values per package manager
+const DISTRO_IDS: Record<PackageManagerName, string[]> = {
+    apt: ['debian', 'ubuntu', 'linuxmint', 'pop', 'raspbian'],
+    dnf: ['fedora', 'rhel', 'centos', 'rocky', 'almalinux', 'ol', 'amzn'],
+    apk: ['alpine'],
+    pacman: ['arch', 'manjaro', 'endeavouros'],
+    brew: []
+};
+
+/**
+ * Parses the key="value" lines of /etc/os-release
+ */
+export function parseOsRelease(content: string): Record<string, string> {
+    const fields: Record<string, string> = {};
+    for (const line of content.split(/\r?\n/)) {
+        const match = line.match(/^([A-Z_]+)=(.*)$/);
+        if (match) fields[match[1]] = match[2].trim().replace(/^["']|["']$/g, '');
+    }
+    return fields;
+}
+
+/**
+ * Detects the package manager of the system. PIA_PACKAGE_MANAGER overrides the detection,
+ * macOS uses Homebrew and Linux distributions are recognised from /etc/os-release.
+ *
+ * @param osRelease - Content of /etc/os-release (read from disk by default).
+ * @param env - Environment variables.
+ * @param platform - Platform, as in process.platform.
+ * @throws If PIA_PACKAGE_MANAGER names an unknown package manager.
+ */
+export function detectPackageManager(
+    osRelease?: string,
+    env: NodeJS.ProcessEnv = process.env,
+    platform: NodeJS.Platform = process.platform
+): PackageManager | null {
+    const override = env.PIA_PACKAGE_MANAGER?.trim().toLowerCase();
+    if (override) {
+        const manager = PACKAGE_MANAGERS[override as PackageManagerName];
+        if (!manager) {
+            throw new Error(`Unknown PIA_PACKAGE_MANAGER "${override}". Available package managers: ${Object.keys(PACKAGE_MANAGERS).join(', ')}`);
+        }
+        return manager;
+    }
+
+    if (platform === 'darwin') return brew;
+    if (platform !== 'linux') return null;
+
+    let content = osRelease;
+    if (content === undefined) {
+        try {
+            content = fs.readFileSync('/etc/os-release', 'utf8');
+        } catch {
+            return null;
+        }
+    }
+
+    const fields = parseOsRelease(content);
+    const ids = [fields.ID, ...(fields.ID_LIKE || '').split(/\s+/)].filter(id => id).map(id => id.toLowerCase());
+    for (const id of ids) {
+        const name = (Object.keys(DISTRO_IDS) as PackageManagerName[]).find(candidate => DISTRO_IDS[candidate].includes(id));
+        if (name) return PACKAGE_MANAGERS[name];
+    }
+    return null;
+}
+
+/**
+ * Finds the installed package providing an extension for a PHP version.
+ *
+ * @returns The package name, or null when none of the candidate packages is installed.
+ */
+export function findInstalledExtensionPackage(
+    manager: PackageManager,
+    extension: string,
+    phpVersion: string,
+    run: CommandRunner = defaultCommandRunner
+): string | null {
+    return manager.packageNames(extension, phpVersion).find(packageName => manager.isInstalled(packageName, run)) || null;
+}
+
+/**
+ * Builds the command that installs the packages of the given extensions
+ */
+export function getInstallCommand(manager: PackageManager, extensions: string[], phpVersion: string): string {
+    const packageNames = unique(extensions.map(extension => manager.packageNames(extension, phpVersion)[0]));
+    return manager.installCommand(packageNames).join(' ');
+}
@@ -0,0 +1,268 @@
+import { spawnSync } from 'child_process';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { detectDebianModsLayout, writeModuleFile } from './debianModules';
+import { isZendExtension } from './extensionCatalogue';
+import { getLoadPrerequisites } from './extensionDependencies';
+import { copyFileWithSudo, isWritable } from './fileUtils';
+import { getPiaDataDir, PhpInstallation } from './phpEnvironmentUtils';
+import { parseStartupErrors } from './phpRuntime';
+import { compareVersions } from './versionConstraint';
+
+// ANSI color codes for consistent styling
+const colors = {
+    reset: '\x1b[0m',
+    bright: '\x1b[1m',
+    red: '\x1b[31m',
+    green: '\x1b[32m',
+    yellow: '\x1b[33m',
+    blue: '\x1b[34m',
+    cyan: '\x1b[36m',
+    white: '\x1b[37m'
+};
+
+export interface BuildCommandResult {
+    stdout: string;
+    stderr: string;
+    exitCode: number | null;    // null when the command could not be started or timed out
+}
+
+// Runs a build step in a directory; replaced with a stub in tests
+export type BuildRunner = (command: string, args: string[], cwd?: string) => BuildCommandResult;
+
+/**
+ * The build tools that belong to one PHP installation
+ */
+export interface PhpBuildTools {
+    phpize: string;
+    phpConfig: string;
+    pecl?: string;              // Only needed to download into the PECL cache
+}
+
+/**
+ * ABI of a PHP build: extensions only load into PHP with the same API number and thread safety
+ */
+export interface PhpBuildAbi {
+    api: string;                // e.g. "20230831"
+    threadSafe: boolean;
+}
+
+export interface PeclBuildOptions {
+    sourceDir?: string;         // Directory with <ext>-<version>.tgz tarballs or extracted sources
+    cacheDir?: string;          // PECL download cache (default: <PIA_HOME>/pecl-cache)
+    useSudo?: boolean;          // Copy into extension_dir with sudo
+    run?: BuildRunner;
+}
+
+export interface PeclBuildResult {
+    extension: string;
+    version: string;
+    source: string;             // Tarball or source directory that was built
+    installedPath: string;      // The .so in extension_dir
+    moduleIniPath?: string;     // mods-available/<ext>.ini written for phpenmod (Debian-style layouts)
+}
+
+const defaultRunner: BuildRunner = (command, args, cwd) => {
+    const result = spawnSync(command, args, { cwd, encoding: 'utf8', timeout: 20 * 60 * 1000 });
+    return { stdout: result.stdout || '', stderr: result.stderr || '', exitCode: result.error ? null : result.status };
+};
+
+/**
+ * Runs a build step and throws with its output when it fails
+ */
+function runStep(run: BuildRunner, command: string, args: string[], cwd?: string): string {
+    const result = run(command, args, cwd);
+    if (result.exitCode !== 0) {
+        const output = `${result.stdout}\n${result.stderr}`.trim().split('\n').slice(-15).join('\n');
+        throw new Error(`${path.basename(command)} ${args.join(' ')} failed${output ? `:\n${output}` : ''}`);
+    }
+    return result.stdout;
+}
+
+/**
+ * Finds phpize, php-config and pecl for an installation: next to its PHP binary first
+ * (including Debian's phpize8.3 naming), then on the PATH.
+ *
+ * @throws If phpize or php-config cannot be found (the PHP development package is missing).
+ */
+export function findBuildTools(installation: PhpInstallation, run: BuildRunner = defaultRunner): PhpBuildTools {
+    const binDir = path.dirname(installation.phpExecutable);
+    const majorMinor = installation.version.split('.').slice(0, 2).join('.');
+
+    const find = (tool: string): string | undefined => {
+        for (const name of [`${tool}${majorMinor}`, tool]) {
+            const candidate = path.join(binDir, name);
+            if (fs.existsSync(candidate)) return candidate;
+        }
+        for (const name of [`${tool}${majorMinor}`, tool]) {
+            const result = run('which', [name]);
+            if (result.exitCode === 0 && result.stdout.trim()) return result.stdout.trim().split('\n')[0];
+        }
+        return undefined;
+    };
+
+    const phpize = find('phpize');
+    const phpConfig = find('php-config');
+    if (!phpize || !phpConfig) {
+        throw new Error(`phpize/php-config for PHP ${majorMinor} not found, install the PHP development package (e.g. php${majorMinor}-dev or php-devel)`);
+    }
+    return { phpize, phpConfig, pecl: find('pecl') };
+}
+
+/**
+ * Reads the ABI an installation's PHP binary was built with ("PHP Extension Build => API20230831,NTS")
+ */
+export function getInstallationAbi(installation: PhpInstallation, run: BuildRunner = defaultRunner): PhpBuildAbi {
+    const output = run(installation.phpExecutable, ['-n', '-i']).stdout;
+    const match = output.match(/PHP Extension Build\s*=>\s*API(\d+),(NTS|TS)/);
+    if (!match) {
+        throw new Error(`Could not read the extension API of ${installation.phpExecutable}`);
+    }
+    return { api: match[1], threadSafe: match[2] === 'TS' };
+}
+
+/**
+ * Reads the ABI that extensions built with a php-config target
+ */
+export function getPhpConfigAbi(phpConfig: string, run: BuildRunner = defaultRunner): PhpBuildAbi {
+    const extensionDir = runStep(run, phpConfig, ['--extension-dir']).trim();
+    const api = runStep(run, phpConfig, ['--phpapi']).trim() || (extensionDir.match(/(\d{8})$/)?.[1] || '');
+    const configureOptions = runStep(run, phpConfig, ['--configure-options']);
+    return { api, threadSafe: /--enable-(maintainer-)?zts|-zts-\d+$/.test(`${configureOptions} ${extensionDir}`) };
+}
+
+/**
+ * Checks that php-config builds for the installation (same API number and thread safety)
+ *
+ * @throws If the ABIs differ, naming both sides.
+ */
+export function checkBuildCompatibility(installation: PhpInstallation, tools: PhpBuildTools, run: BuildRunner = defaultRunner): PhpBuildAbi {
+    const target = getInstallationAbi(installation, run);
+    const build = getPhpConfigAbi(tools.phpConfig, run);
+    const describe = (abi: PhpBuildAbi) => `API ${abi.api}, ${abi.threadSafe ? 'TS' : 'NTS'}`;
+
+    if (installation.threadSafety !== undefined && installation.threadSafety !== target.threadSafe) {
+        throw new Error(`PHP ${installation.version} reports ${target.threadSafe ? 'TS' : 'NTS'} but was detected as ${installation.threadSafety ? 'TS' : 'NTS'}`);
+    }
+    if (build.api !== target.api || build.threadSafe !== target.threadSafe) {
+        throw new Error(`${tools.phpConfig} builds for ${describe(build)} but ${installation.phpExecutable} needs ${describe(target)}`);
+    }
+    return target;
+}
+
+/**
+ * Finds the newest source of an extension in a directory: <ext>-<version>.tgz / .tar.gz
+ * tarballs or extracted <ext>-<version> directories.
+ */
+export function findExtensionSource(extension: string, sourceDir: string): { path: string; version: string } | null {
+    if (!fs.existsSync(sourceDir)) return null;
+
+    const pattern = new RegExp(`^${extension.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}-(\\d+(?:\\.\\d+)*[\\w.-]*?)(\\.tgz|\\.tar\\.gz)?$`, 'i');
+    const candidates = fs.readdirSync(sourceDir)
+        .map(name => ({ name, match: name.match(pattern) }))
+        .filter((entry): entry is { name: string; match: RegExpMatchArray } => entry.match !== null)
+        .map(entry => ({ path: path.join(sourceDir, entry.name), version: entry.match[1] }))
+        .sort((a, b) => compareVersions(b.version, a.version));
+
+    return candidates[0] || null;
+}
+
+/**
+ * Downloads an extension tarball into the PECL cache with `pecl download`
+ */
+function downloadFromPecl(extension: string, tools: PhpBuildTools, cacheDir: string, run: BuildRunner): { path: string; version: string } {
+    if (!tools.pecl) {
+        throw new Error(`No source for ${extension} in ${cacheDir} and pecl is not installed; pass --source <dir> with ${extension}-<version>.tgz`);
+    }
+    fs.ensureDirSync(cacheDir);
+    console.log(`${colors.cyan}⬇️  Downloading ${extension} from PECL into ${cacheDir}...${colors.reset}`);
+    runStep(run, tools.pecl, ['download', extension], cacheDir);
+
+    const source = findExtensionSource(extension, cacheDir);
+    if (!source) {
+        throw new Error(`pecl download ${extension} did not produce a tarball in ${cacheDir}`);
+    }
+    return source;
+}
+
+/**
+ * Builds a PECL extension for an installation with its own phpize/php-config, copies the
+ * .so into the installation's extension_dir and checks that PHP can load it. On Debian-style
+ * layouts a mods-available/<ext>.ini is written as well, so phpenmod can enable it.
+ *
+ * @param installation - Installation to build for.
+ * @param extension - Extension name, e.g. 'redis'.
+ * @param options - Source directory, PECL cache, sudo usage and the command runner.
+ * @throws If the build tools are missing, the ABI does not match, or a build step fails.
+ */
+export async function buildPeclExtension(installation: PhpInstallation, extension: string, options: PeclBuildOptions = {}): Promise<PeclBuildResult> {
+    const run = options.run || defaultRunner;
+    const cacheDir = options.cacheDir || path.join(getPiaDataDir(), 'pecl-cache');
+
+    const tools = findBuildTools(installation, run);
+    const abi = checkBuildCompatibility(installation, tools, run);
+    console.log(`${colors.green}✅ ${tools.phpConfig} matches PHP ${installation.version} (API ${abi.api}, ${abi.threadSafe ? 'TS' : 'NTS'})${colors.reset}`);
+
+    const source = (options.sourceDir && findExtensionSource(extension, options.sourceDir)) ||
+        findExtensionSource(extension, cacheDir) ||
+        downloadFromPecl(extension, tools, cacheDir, run);
+    console.log(`${colors.bright}🔨 Building ${extension} ${source.version} from ${source.path}${colors.reset}`);
+
+    // Build in a scratch copy so the source directory and cache stay untouched
+    const buildRoot = fs.mkdtempSync(path.join(os.tmpdir(), `pia-${extension}-`));
+    try {
+        let buildDir: string;
+        if (fs.statSync(source.path).isDirectory()) {
+            buildDir = path.join(buildRoot, path.basename(source.path));
+            fs.copySync(source.path, buildDir);
+        } else {
+            runStep(run, 'tar', ['-xzf', source.path, '-C', buildRoot]);
+            // PECL tarballs contain package.xml next to the <ext>-<version> directory
+            const extracted = fs.readdirSync(buildRoot).find(name => fs.statSync(path.join(buildRoot, name)).isDirectory());
+            if (!extracted) {
+                throw new Error(`${source.path} does not contain a source directory`);
+            }
+            buildDir = path.join(buildRoot, extracted);
+        }
+
+        runStep(run, tools.phpize, [], buildDir);
+        runStep(run, './configure', [`--with-php-config=${tools.phpConfig}`], buildDir);
+        runStep(run, 'make', [`-j${Math.max(1, os.cpus().length)}`], buildDir);
+
+        const builtModule = path.join(buildDir, 'modules', `${extension}.so`);
+        if (!fs.existsSync(builtModule)) {
+            throw new Error(`The build did not produce modules/${extension}.so`);
+        }
+
+        // Load the fresh build before installing it, so a broken module never reaches extension_dir
+        const directive = isZendExtension(extension) ? 'zend_extension' : 'extension';
+        const check = run(installation.phpExecutable, ['-n', '-d', `${directive}=${builtModule}`, '-r', `echo extension_loaded('${extension}') ? 'loaded' : 'missing';`]);
+        const issues = parseStartupErrors(`${check.stdout}\n${check.stderr}`);
+        if (check.exitCode !== 0 || !check.stdout.includes('loaded') || issues.length > 0) {
+            const detail = issues.map(issue => issue.message).join('; ') || check.stderr.trim() || check.stdout.trim();
+            throw new Error(`PHP ${installation.version} cannot load the built ${extension}.so: ${detail}`);
+        }
+
+        const installedPath = path.join(installation.extensionDir, `${extension}.so`);
+        const useSudo = options.useSudo || (process.platform !== 'win32' && !isWritable(installation.extensionDir));
+        await copyFileWithSudo(builtModule, installedPath, useSudo);
+        console.log(`${colors.green}✅ Installed ${installedPath}${colors.reset}`);
+
+        // phpenmod only enables modules that have a mods-available file; keep one a package left behind
+        const modsLayout = process.platform !== 'win32' ? detectDebianModsLayout(installation.iniPath) : null;
+        let moduleIniPath: string | undefined;
+        if (modsLayout && !fs.existsSync(path.join(modsLayout.modsDir, `${extension}.ini`))) {
+            moduleIniPath = await writeModuleFile(modsLayout, extension, {
+                zend: isZendExtension(extension),
+                prerequisites: getLoadPrerequisites(extension),
+                useSudo: options.useSudo || !isWritable(modsLayout.modsDir)
+            });
+            console.log(`${colors.green}✅ Created ${moduleIniPath}${colors.reset}`);
+        }
+
+        return { extension, version: source.version, source: source.path, installedPath, moduleIniPath };
+    } finally {
+        fs.removeSync(buildRoot);
+    }
+}
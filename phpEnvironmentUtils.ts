@@ -16,6 +16,16 @@ const colors = {
 };
 
 // Enhanced interfaces
+
+/**
+ * A server API (cli, fpm, apache2, ...) with its own php.ini and scan directory
+ */
+export interface PhpSapi {
+    name: string;
+    iniPath: string;
+    scanDir?: string;
+}
+
 export interface PhpInstallation {
     version: string;
     path: string;
@@ -28,6 +38,8 @@ export interface PhpInstallation {
     threadSafety?: boolean;
     configureCommand?: string;
     buildDate?: string;
+    scanDir?: string; // Directory scanned for additional .ini files (conf.d)
+    sapis?: PhpSapi[]; // Per-SAPI configuration (Debian-style /etc/php/X.Y/<sapi>/)
     priority: number; // For sorting by preference
 }
 
@@ -54,6 +66,13 @@ interface DetectionResult {
     systemPhp?: PhpInstallation;
 }
 
+/**
+ * Gets the directory where php-ini-automation keeps its own state (backup catalogue, etc.)
+ */
+export function getPiaDataDir(): string {
+    return process.env.PIA_HOME || path.join(os.homedir(), '.php-ini-automation');
+}
+
 // Cross-platform PHP environment configurations
 const getEnvironmentConfigs = (): EnvironmentConfig[] => {
     const isWindows = process.platform === 'win32';
@@ -421,10 +440,9 @@ function getPhpIniPathFromExecutable(phpPath: string): string[] {
         }
 
         // Extract scan directories
-        const scanMatch = configResult.match(/Scan for additional \.ini files in:\s*(.+)/);
-        if (scanMatch && scanMatch[1] && scanMatch[1].trim() !== '(none)') {
-            const scanDirs = scanMatch[1].trim().split(/[,;:]/);
-            return scanDirs.map(dir => path.join(dir.trim(), 'php.ini')).filter(p => fs.existsSync(p));
+        const scanDirs = parseScanDirs(configResult);
+        if (scanDirs.length > 0) {
+            return scanDirs.map(dir => path.join(dir, 'php.ini')).filter(p => fs.existsSync(p));
         }
 
     } catch {
@@ -434,6 +452,69 @@ function getPhpIniPathFromExecutable(phpPath: string): string[] {
     return [];
 }
 
+// SAPI directories of the Debian/Ubuntu packaging, in the order they are reported
+const DEBIAN_SAPIS = ['cli', 'fpm', 'apache2', 'cgi', 'embed', 'phpdbg'];
+
+/**
+ * Detects the SAPIs of a Debian-style installation (/etc/php/X.Y/<sapi>/php.ini)
+ *
+ * @param version - PHP version, e.g. "8.3.6" (only major.minor is used).
+ * @param etcRoot - Root of the per-version configuration directories.
+ */
+export function detectDebianSapis(version: string, etcRoot: string = '/etc/php'): PhpSapi[] {
+    const majorMinor = version.split('.').slice(0, 2).join('.');
+    const versionDir = path.join(etcRoot, majorMinor);
+    const sapis: PhpSapi[] = [];
+
+    for (const name of DEBIAN_SAPIS) {
+        const iniPath = path.join(versionDir, name, 'php.ini');
+        if (!fs.existsSync(iniPath)) continue;
+
+        const scanDir = path.join(versionDir, name, 'conf.d');
+        sapis.push({ name, iniPath, scanDir: fs.existsSync(scanDir) ? scanDir : undefined });
+    }
+
+    return sapis;
+}
+
+/**
+ * Gets the SAPIs of an installation. Installations without a per-SAPI layout have a
+ * single SAPI for the detected php.ini.
+ */
+export function getInstallationSapis(installation: PhpInstallation): PhpSapi[] {
+    if (installation.sapis && installation.sapis.length > 0) return installation.sapis;
+    return [{ name: 'cli', iniPath: installation.iniPath, scanDir: installation.scanDir }];
+}
+
+/**
+ * Parses the conf.d scan directories from `php --ini` or `php -i` output
+ */
+function parseScanDirs(output: string): string[] {
+    const scanMatch = output.match(/Scan for additional \.ini files in:\s*(.+)/) ||
+        output.match(/Scan this dir for additional \.ini files => (.+)/);
+    if (!scanMatch || !scanMatch[1] || scanMatch[1].trim() === '(none)') return [];
+
+    // PHP_INI_SCAN_DIR separates directories with the platform path delimiter
+    return scanMatch[1].trim().split(path.delimiter).map(dir => dir.trim()).filter(dir => dir);
+}
+
+/**
+ * Gets the directories PHP scans for additional .ini files (conf.d) from `php --ini`
+ */
+export function getPhpIniScanDirs(phpPath: string): string[] {
+    try {
+        const nullDevice = process.platform === 'win32' ? '2>nul' : '2>/dev/null';
+        const result = execSync(`"${phpPath}" --ini ${nullDevice}`, {
+            encoding: 'utf8',
+            timeout: 5000,
+            stdio: ['pipe', 'pipe', 'ignore']
+        });
+        return parseScanDirs(result);
+    } catch {
+        return [];
+    }
+}
+
 /**
  * Gets extension directory path directly from PHP executable
  */
@@ -491,9 +572,11 @@ function getPhpInfoFromExecutable(phpPath: string): Partial<PhpInstallation> | n
         const threadSafetyMatch = configResult.match(/Thread Safety => (.+)/);
         const buildDateMatch = configResult.match(/Build Date => (.+)/);
         const configureMatch = configResult.match(/Configure Command => (.+)/);
+        const scanDirs = parseScanDirs(configResult);
 
         return {
             version,
+            scanDir: scanDirs.length > 0 ? scanDirs[scanDirs.length - 1] : undefined,
             architecture: architectureMatch ? architectureMatch[1].trim() : undefined,
             threadSafety: threadSafetyMatch ? threadSafetyMatch[1].trim() === 'enabled' : undefined,
             buildDate: buildDateMatch ? buildDateMatch[1].trim() : undefined,
@@ -659,6 +742,7 @@ function createInstallationFromPath(phpDir: string, environment: string): PhpIns
         if (!phpInfo || !phpInfo.version) return null;
 
         // Find php.ini (cross-platform paths)
+        const majorMinor = phpInfo.version.split('.').slice(0, 2).join('.');
         const possibleIniPaths = isWindows ? [
             path.join(phpDir, 'php.ini'),
             path.join(phpDir, 'conf', 'php.ini'),
@@ -668,10 +752,10 @@ function createInstallationFromPath(phpDir: string, environment: string): PhpIns
             // Try to get actual php.ini path from PHP itself
             ...getPhpIniPathFromExecutable(phpExePath),
             // Common Linux/Unix paths
-            `/etc/php/${phpInfo.version}/apache2/php.ini`,
-            `/etc/php/${phpInfo.version}/cli/php.ini`,
-            `/etc/php/${phpInfo.version}/fpm/php.ini`,
-            `/etc/php/${phpInfo.version}/php.ini`,
+            `/etc/php/${majorMinor}/cli/php.ini`,
+            `/etc/php/${majorMinor}/fpm/php.ini`,
+            `/etc/php/${majorMinor}/apache2/php.ini`,
+            `/etc/php/${majorMinor}/php.ini`,
             '/etc/php.ini',
             '/usr/local/etc/php.ini',
             `/usr/local/etc/php/${phpInfo.version}/php.ini`,
@@ -730,6 +814,8 @@ function createInstallationFromPath(phpDir: string, environment: string): PhpIns
             threadSafety: phpInfo.threadSafety,
             buildDate: phpInfo.buildDate,
             configureCommand: phpInfo.configureCommand,
+            scanDir: phpInfo.scanDir,
+            sapis: iniPath.startsWith('/etc/php/') ? detectDebianSapis(phpInfo.version) : undefined,
             priority: environment === 'System PATH' ? 1 : 5
         };
     } catch {
@@ -739,13 +825,17 @@ function createInstallationFromPath(phpDir: string, environment: string): PhpIns
 
 /**
  * Comprehensive PHP installation scanner with streamlined feedback
+ *
+ * @param quiet - Do not print progress (for machine-readable output).
  */
-export function scanPhpInstallations(): PhpInstallation[] {
+export function scanPhpInstallations(quiet: boolean = false): PhpInstallation[] {
     const installations: PhpInstallation[] = [];
     const foundPaths = new Set<string>(); // Prevent duplicates
     const foundExecutables = new Set<string>(); // Prevent duplicate executables
 
-    console.log('🔍 Scanning for PHP installations...');
+    if (!quiet) {
+        console.log('🔍 Scanning for PHP installations...');
+    }
 
     // Method 1: Detect from system PATH (highest priority)
     const pathInstallations = detectFromPath();
@@ -1053,6 +1143,8 @@ function createInstallation(basePath: string, version: string, config: Environme
             threadSafety: phpInfo?.threadSafety,
             buildDate: phpInfo?.buildDate,
             configureCommand: phpInfo?.configureCommand,
+            scanDir: phpInfo?.scanDir,
+            sapis: finalIniPath.startsWith('/etc/php/') ? detectDebianSapis(detectedVersion) : undefined,
             priority: config.priority
         };
     } catch {
@@ -1222,8 +1314,10 @@ export function getDetailedPhpDetection(): DetectionResult {
 
 /**
  * Validates a PHP installation with automatic permission handling
+ *
+ * @param quiet - Do not announce that sudo will be used.
  */
-export function validatePhpInstallation(installation: PhpInstallation): {
+export function validatePhpInstallation(installation: PhpInstallation, quiet: boolean = false): {
     isValid: boolean;
     issues: string[];
     suggestions: string[];
@@ -1260,7 +1354,7 @@ export function validatePhpInstallation(installation: PhpInstallation): {
             if (isUnix) {
                 // On Unix systems, we can use sudo
                 needsSudo = true;
-                console.log(`${colors.yellow}ℹ️  php.ini requires elevated permissions - will use sudo automatically${colors.reset}`);
+                if (!quiet) console.log(`${colors.yellow}ℹ️  php.ini requires elevated permissions - will use sudo automatically${colors.reset}`);
             } else {
                 issues.push('php.ini file is not writable');
                 suggestions.push('Run as administrator or change file permissions');
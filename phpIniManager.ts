@@ -1,5 +1,36 @@
 import fs from 'fs-extra';
 import path from 'path';
+import { createBackup } from './backupManager';
+import { isWritable, readFileWithSudo } from './fileUtils';
+import { applyModuleChanges, DebianModsLayout, detectDebianModsLayout, findModuleForExtension, getEnabledModules, listAvailableModules, ModuleChange, ModuleChangeResult } from './debianModules';
+import { verifyEffectiveConfiguration, VerificationResult } from './configVerification';
+import { checkDirective } from './directiveCatalogue';
+import { ConflictDecision, resolveExtensionConflicts } from './extensionConflicts';
+import { expandExtensionDependencies, findLoadOrderViolations, Prerequisite, sortByLoadOrder } from './extensionDependencies';
+import { getBuiltInExtensions, getExtensionDependencies, getWindowsDllNames, getZendExtensions, isBuiltInExtension, isCompiledIn, isZendExtension, resolveExtensionName } from './extensionCatalogue';
+import { ConfigMode, createDropInContent, DropInConflict, findDropInConflicts, getDropInPath } from './dropInConfig';
+import { createUnifiedDiff } from './iniDiff';
+import { applyIniTransaction, rollBackIniFile } from './iniTransaction';
+import { validateSettings, ValidationResult } from './iniValidation';
+import {
+    disableExtension,
+    enableExtension,
+    extensionNameFromValue,
+    findExtensionLines,
+    getDirectiveValue,
+    getEnabledExtensions,
+    IniDocument,
+    isExtensionEnabled,
+    parseIniDocument,
+    reorderExtensionLines,
+    serializeIniDocument,
+    setDirective,
+    setExtensionDirective
+} from './iniDocument';
+import { detectPackageManager, findInstalledExtensionPackage, getInstallCommand, PackageManager } from './packageManagers';
+import { getPhpIniScanDirs, PhpInstallation } from './phpEnvironmentUtils';
+import { getPhpVersion, parseStartupErrors, runPhp, StartupIssue } from './phpRuntime';
+import { resolveProfile, ResolvedProfile } from './profiles';
 
 // ANSI color codes for consistent styling
 const colors = {
@@ -13,6 +44,45 @@ const colors = {
     white: '\x1b[37m'
 };
 
+export type IniChangeType = 'extension-enabled' | 'extension-disabled' | 'extension-order' | 'setting-updated' | 'setting-added' | 'setting-removed' | 'extension-dir';
+
+/**
+ * A single change made (or planned, in dry-run mode) to a php.ini file
+ */
+export interface IniChange {
+    type: IniChangeType;
+    name: string;           // Extension name or directive key
+    before?: string;
+    after?: string;
+    reason: string;
+}
+
+export interface CustomizeOptions {
+    dryRun?: boolean;       // Compute and print the changes without touching disk
+    installation?: PhpInstallation; // Installation being configured (recorded with backups)
+    backupDir?: string;     // Central backup store instead of the php.ini directory
+    profile?: string | ResolvedProfile; // Configuration profile (defaults to 'development')
+    mode?: ConfigMode;      // 'inplace' edits php.ini, 'drop-in' manages 99-pia.ini in the scan directory
+    scanDir?: string;       // conf.d directory of the SAPI (detected from PHP by default)
+    sapi?: string;          // SAPI being configured, e.g. 'fpm'
+}
+
+export interface CustomizeResult {
+    filePath: string;       // The file that was (or would be) written
+    mode: ConfigMode;
+    sapi?: string;
+    dryRun: boolean;
+    written: boolean;
+    rolledBack: boolean;    // The change broke PHP startup and was reverted
+    startupIssues: StartupIssue[];
+    changes: IniChange[];
+    diff: string;           // Unified diff of the php.ini file
+    validation: ValidationResult; // Nothing is written when validation fails
+    conflicts: DropInConflict[];  // Drop-in mode: values other conf.d files set differently
+    extensionConflicts: ConflictDecision[]; // Conflicting extensions and which one was kept
+    verification?: VerificationResult;      // Effective values reported by PHP after applying
+}
+
 /**
  * Validates that the source php.ini file exists and is readable (with sudo support).
  *
@@ -47,10 +117,7 @@ function extensionExists(extensionDir: string, extension: string): boolean {
     if (!extensionDir) return false;
 
     const isWindows = process.platform === 'win32';
-    const possibleExtensions = isWindows ? [
-        `php_${extension}.dll`,
-        `${extension}.dll`
-    ] : [
+    const possibleExtensions = isWindows ? getWindowsDllNames(extension) : [
         `${extension}.so`,
         `php_${extension}.so`,
         `${extension}.dylib`, // macOS
@@ -75,180 +142,155 @@ function extensionExists(extensionDir: string, extension: string): boolean {
 /**
  * Checks if an extension is built-in or available via package manager on Linux
  */
-function isBuiltInOrAvailableExtension(extension: string): boolean {
-    const builtInExtensions = [
-        'ctype', 'fileinfo', 'tokenizer', 'json', 'pcre', 'spl', 'standard',
-        'date', 'hash', 'filter', 'reflection', 'session', 'xml', 'exif',
-        'openssl', 'ftp' // These are often built-in
-    ];
-
+function isBuiltInOrAvailableExtension(extension: string, phpVersion: string = ''): boolean {
     // Check if it's a built-in extension (don't enable these)
-    if (builtInExtensions.includes(extension)) {
+    if (isBuiltInExtension(extension, phpVersion)) {
         return false; // Return false so we don't try to enable built-ins
     }
 
-    // Check if extension package is installed via apt
-    try {
-        const { execSync } = require('child_process');
-        const packageName = `php-${extension}`;
-
-        // Check if package is installed
-        execSync(`dpkg -l | grep -q "^ii.*${packageName}"`, {
-            stdio: 'ignore',
-            timeout: 3000
-        });
-        return true;
-    } catch {
-        // Package not installed or command failed
-        return false;
-    }
+    return isExtensionPackageInstalled(extension, phpVersion);
 }
 
 /**
- * Checks if a PHP extension package is installed on Linux
+ * Gets the system package manager, or null when it is unknown or misconfigured
  */
-function isExtensionPackageInstalled(extension: string): boolean {
+function getPackageManager(): PackageManager | null {
     try {
-        const { execSync } = require('child_process');
-
-        // Check multiple possible package names for PHP 8.2
-        const possiblePackages = [
-            `php8.2-${extension}`,
-            `php-${extension}`
-        ];
-
-        for (const packageName of possiblePackages) {
-            try {
-                execSync(`dpkg -l | grep -q "^ii.*${packageName}"`, {
-                    stdio: 'ignore',
-                    timeout: 3000
-                });
-                return true;
-            } catch {
-                // Try next package name
-                continue;
-            }
-        }
-
-        return false;
+        return detectPackageManager();
     } catch {
-        // Package not installed
-        return false;
+        return null;
     }
 }
 
 /**
- * Gets list of already loaded PHP modules to prevent duplicates
+ * Checks if a PHP extension is available for the PHP version: its module is in the
+ * extension directory, or the distribution package is installed.
  */
-function getLoadedModules(phpExecutable: string): string[] {
-    try {
-        const { execSync } = require('child_process');
-        const isWindows = process.platform === 'win32';
-        const nullDevice = isWindows ? '2>nul' : '2>/dev/null';
-
-        const result = execSync(`"${phpExecutable}" -m ${nullDevice}`, {
-            encoding: 'utf8',
-            timeout: 5000,
-            stdio: ['pipe', 'pipe', 'ignore']
-        });
-
-        return result.split('\n')
-            .map((line: string) => line.trim().toLowerCase())
-            .filter((line: string) => line && !line.startsWith('['));
-    } catch {
-        return [];
+function isExtensionPackageInstalled(extension: string, phpVersion: string = '', extensionDir: string = ''): boolean {
+    // Modules built from PECL sources are not owned by any package
+    if (extensionDir && ['so', 'dylib'].some(suffix => fs.existsSync(path.join(extensionDir, `${extension}.${suffix}`)))) {
+        return true;
     }
+
+    const manager = getPackageManager();
+    return !!manager && findInstalledExtensionPackage(manager, extension, phpVersion) !== null;
 }
 
 /**
- * Special extensions that require zend_extension instead of extension
+ * Formats the command that installs the packages of missing extensions
  */
-const ZEND_EXTENSIONS = ['opcache', 'xdebug'];
+function formatInstallHint(extensions: string[], phpVersion: string): string {
+    const manager = getPackageManager();
+    return manager ? getInstallCommand(manager, extensions, phpVersion) : `pecl install ${extensions.join(' ')}`;
+}
 
 /**
- * Removes problematic extension lines from php.ini content
+ * Gets list of already loaded PHP modules to prevent duplicates
+ *
+ * @param phpExecutable - Path to PHP executable.
+ * @param iniArgs - Arguments selecting the SAPI's php.ini (e.g. ['-c', iniPath]).
+ * @param env - Extra environment, e.g. the SAPI's PHP_INI_SCAN_DIR.
  */
-function removeProblematicExtensions(content: string, phpExecutable: string): string {
-    if (!phpExecutable) return content;
+function getLoadedModules(phpExecutable: string, iniArgs: string[] = [], env: Record<string, string> = {}): string[] {
+    const result = runPhp(phpExecutable, [...iniArgs, '-m'], env);
+    if (result.exitCode === null) return [];
+
+    // php -m reports some modules by their display name ("Zend OPcache")
+    return result.stdout.split('\n')
+        .map(line => line.trim())
+        .filter(line => line && !line.startsWith('['))
+        .map(line => resolveExtensionName(line));
+}
 
-    try {
-        const { execSync } = require('child_process');
+/**
+ * Disables extension lines that PHP reports as unloadable or duplicated
+ */
+function removeProblematicExtensions(doc: IniDocument, phpExecutable: string, iniPath: string, changes: IniChange[], env: Record<string, string> = {}): void {
+    if (!phpExecutable) return;
 
+    try {
         // Get PHP startup errors to identify problematic extensions
-        const result = execSync(`${phpExecutable} -v 2>&1`, {
-            encoding: 'utf8',
-            timeout: 5000
-        });
-
-        // Find extensions that can't be loaded
-        const problematicExtensions: string[] = [];
-        const duplicateExtensions: string[] = [];
-        const lines = result.split('\n');
-
-        for (const line of lines) {
-            if (line.includes('Unable to load dynamic library')) {
-                const match = line.match(/'([^']+)'/);
-                if (match) {
-                    problematicExtensions.push(match[1]);
-                }
-            } else if (line.includes('Module') && line.includes('is already loaded')) {
-                const match = line.match(/Module "([^"]+)" is already loaded/);
-                if (match) {
-                    duplicateExtensions.push(match[1]);
-                }
-            }
+        const result = runPhp(phpExecutable, ['-c', iniPath, '-v'], env);
+        if (result.exitCode === null) {
+            throw new Error(`could not run ${phpExecutable}`);
         }
 
+        const issues = parseStartupErrors(result.output);
+        const problematicExtensions = issues.filter(issue => issue.type === 'unable-to-load').map(issue => issue.extension!);
+        const duplicateExtensions = issues.filter(issue => issue.type === 'already-loaded').map(issue => issue.extension!);
+
         console.log(`${colors.yellow}🔧 Found ${problematicExtensions.length} problematic extensions: ${problematicExtensions.join(', ')}${colors.reset}`);
         console.log(`${colors.yellow}🔧 Found ${duplicateExtensions.length} duplicate extensions: ${duplicateExtensions.join(', ')}${colors.reset}`);
 
-        // Remove problematic extension lines
+        // Comment out problematic extension lines
         const allProblematic = [...problematicExtensions, ...duplicateExtensions];
         for (const ext of allProblematic) {
-            const patterns = [
-                new RegExp(`^\\s*extension\\s*=\\s*${ext}\\s*$`, 'gm'),
-                new RegExp(`^\\s*zend_extension\\s*=\\s*${ext}\\s*$`, 'gm')
-            ];
-
-            for (const pattern of patterns) {
-                content = content.replace(pattern, `;extension=${ext} ; Disabled by PHP INI Automation - ${problematicExtensions.includes(ext) ? 'package not installed' : 'built-in module'}`);
+            const reason = problematicExtensions.includes(ext) ? 'package not installed' : 'built-in module';
+            if (disableExtension(doc, ext, `Disabled by PHP INI Automation - ${reason}`) > 0) {
+                changes.push({
+                    type: 'extension-disabled',
+                    name: ext,
+                    reason: problematicExtensions.includes(ext) ? 'Unable to load dynamic library' : 'Module already loaded (duplicate)'
+                });
             }
         }
 
         if (allProblematic.length > 0) {
             console.log(`${colors.green}✅ Disabled ${allProblematic.length} problematic extensions${colors.reset}`);
         }
-
-        return content;
     } catch (error) {
         console.log(`${colors.yellow}⚠️  Could not detect problematic extensions: ${error}${colors.reset}`);
-        return content;
     }
 }
 
 /**
- * Enables PHP extensions in the php.ini file content with better detection.
- *
- * @param content - The php.ini file content.
- * @param extensions - List of PHP extensions to enable.
- * @param extensionDir - Directory containing extension files.
- * @param phpExecutable - Path to PHP executable for checking loaded modules.
- * @returns Object with updated content and statistics.
+ * Outcome of enabling a list of extensions
  */
-function enableExtensions(content: string, extensions: string[], extensionDir: string, phpExecutable: string = ''): {
-    content: string;
+interface ExtensionStats {
     enabled: string[];
     missing: string[];
     alreadyEnabled: string[];
     alreadyLoaded: string[];
-} {
+    unmetDependencies: { extension: string; requires: string[] }[]; // Skipped because a prerequisite is missing
+}
+
+/**
+ * Finds the prerequisites of an extension that are neither compiled in nor available
+ */
+function findUnmetDependencies(extension: string, phpVersion: string, isAvailable: (dependency: string) => boolean): string[] {
+    return getExtensionDependencies(extension)
+        .filter(dependency => !isBuiltInExtension(dependency, phpVersion) && !isAvailable(dependency));
+}
+
+/**
+ * Enables PHP extensions in the php.ini document with better detection.
+ *
+ * @param doc - The php.ini document.
+ * @param extensions - List of PHP extensions to enable.
+ * @param extensionDir - Directory containing extension files.
+ * @param phpExecutable - Path to PHP executable for checking loaded modules.
+ * @param phpVersion - PHP version the extension packages must be built for.
+ * @param iniArgs - Arguments PHP is probed with for loaded modules.
+ * @param env - Extra environment PHP is probed with.
+ * @returns Extension statistics.
+ */
+function enableExtensions(
+    doc: IniDocument,
+    extensions: string[],
+    extensionDir: string,
+    phpExecutable: string = '',
+    phpVersion: string = '',
+    iniArgs: string[] = [],
+    env: Record<string, string> = {}
+): ExtensionStats {
     const enabled: string[] = [];
     const missing: string[] = [];
     const alreadyEnabled: string[] = [];
     const alreadyLoaded: string[] = [];
+    const unmetDependencies: ExtensionStats['unmetDependencies'] = [];
 
     // Get list of already loaded modules to prevent duplicates
-    const loadedModules = phpExecutable ? getLoadedModules(phpExecutable) : [];
+    const loadedModules = phpExecutable ? getLoadedModules(phpExecutable, iniArgs, env) : [];
 
     extensions.forEach(extension => {
         // Skip if module is already loaded to prevent duplicates
@@ -256,29 +298,20 @@ function enableExtensions(content: string, extensions: string[], extensionDir: s
             alreadyLoaded.push(extension);
             return;
         }
-        // Check if extension is already enabled (check both extension= and zend_extension=)
-        const enabledPattern = new RegExp(`^extension\\s*=\\s*${extension}`, 'm');
-        const zendEnabledPattern = new RegExp(`^zend_extension\\s*=\\s*${extension}`, 'm');
-        if (enabledPattern.test(content) || zendEnabledPattern.test(content)) {
-            alreadyEnabled.push(extension);
-            return;
-        }
 
-        // Try to enable commented extension (check both extension= and zend_extension=)
-        const isZendExtension = ['opcache', 'xdebug'].includes(extension);
-        const commentedPattern = new RegExp(`;\\s*extension\\s*=\\s*${extension}`, 'g');
-        const commentedZendPattern = new RegExp(`;\\s*zend_extension\\s*=\\s*${extension}`, 'g');
-
-        if (commentedPattern.test(content)) {
-            const replacement = isZendExtension ? `zend_extension=${extension}` : `extension=${extension}`;
-            content = content.replace(commentedPattern, replacement);
-            enabled.push(extension);
+        // Check if extension is already enabled (extension= or zend_extension=)
+        if (isExtensionEnabled(doc, extension)) {
+            alreadyEnabled.push(extension);
             return;
         }
 
-        if (commentedZendPattern.test(content)) {
-            content = content.replace(commentedZendPattern, `zend_extension=${extension}`);
-            enabled.push(extension);
+        // Extensions come in load order, so prerequisites have been handled already
+        const unmet = findUnmetDependencies(extension, phpVersion, dependency =>
+            loadedModules.includes(dependency) || isExtensionEnabled(doc, dependency)
+        );
+        if (unmet.length > 0) {
+            console.log(`${colors.yellow}⚠️  Skipping ${extension}: requires ${unmet.join(', ')}, which could not be enabled${colors.reset}`);
+            unmetDependencies.push({ extension, requires: unmet });
             return;
         }
 
@@ -288,9 +321,9 @@ function enableExtensions(content: string, extensions: string[], extensionDir: s
 
         if (process.platform !== 'win32') {
             // On Linux, only enable if package is installed
-            canEnable = isExtensionPackageInstalled(extension);
+            canEnable = isExtensionPackageInstalled(extension, phpVersion, extensionDir);
             if (!canEnable) {
-                console.log(`${colors.yellow}⚠️  Skipping ${extension}: package php-${extension} not installed${colors.reset}`);
+                console.log(`${colors.yellow}⚠️  Skipping ${extension}: package not installed for PHP ${phpVersion || '(unknown version)'}${colors.reset}`);
                 missing.push(extension);
                 return;
             }
@@ -300,173 +333,469 @@ function enableExtensions(content: string, extensions: string[], extensionDir: s
         }
 
         if (canEnable) {
-            // Add extension at the end of the extensions section
-            const extensionSection = content.indexOf('[PHP]') !== -1 ? '[PHP]' :
-                                   content.indexOf('; Dynamic Extensions') !== -1 ? '; Dynamic Extensions' :
-                                   content.indexOf('extension=') !== -1 ? 'extension=' : null;
+            // Uncomments the stock line or adds one next to the extension block
+            enableExtension(doc, extension, isZendExtension(extension));
+            enabled.push(extension);
+        } else {
+            missing.push(extension);
+        }
+    });
 
-            if (extensionSection) {
-                const sectionIndex = content.indexOf(extensionSection);
-                const nextSectionIndex = content.indexOf('\n[', sectionIndex + 1);
-                const insertIndex = nextSectionIndex !== -1 ? nextSectionIndex : content.length;
+    return { enabled, missing, alreadyEnabled, alreadyLoaded, unmetDependencies };
+}
 
-                const beforeInsert = content.substring(0, insertIndex);
-                const afterInsert = content.substring(insertIndex);
+/**
+ * Plans enabling extensions through mods-available on Debian-style installations, where
+ * extension= lines in php.ini would duplicate the conf.d symlinks.
+ *
+ * @param layout - The SAPI's mods-available layout.
+ * @param extensions - List of PHP extensions to enable.
+ * @param phpExecutable - Path to PHP executable for detecting built-in modules.
+ * @param moduleChanges - Module change list to record the planned phpenmod calls in.
+ * @param iniArgs - Arguments PHP is probed with for loaded modules.
+ * @param env - Extra environment PHP is probed with, e.g. the SAPI's PHP_INI_SCAN_DIR.
+ * @returns Extension statistics.
+ */
+function enableModules(
+    layout: DebianModsLayout,
+    extensions: string[],
+    phpExecutable: string,
+    moduleChanges: ModuleChange[],
+    iniArgs: string[] = [],
+    env: Record<string, string> = {}
+): ExtensionStats {
+    const enabled: string[] = [];
+    const missing: string[] = [];
+    const alreadyEnabled: string[] = [];
+    const alreadyLoaded: string[] = [];
+    const unmetDependencies: ExtensionStats['unmetDependencies'] = [];
 
-                // Use zend_extension for special extensions
-                const isZendExtension = ['opcache', 'xdebug'].includes(extension);
-                const extensionLine = isZendExtension ? `zend_extension=${extension}` : `extension=${extension}`;
+    const modules = listAvailableModules(layout.modsDir);
+    const enabledModules = getEnabledModules(layout);
+    const loadedModules = phpExecutable ? getLoadedModules(phpExecutable, iniArgs, env) : [];
 
-                content = beforeInsert + `\n${extensionLine}` + afterInsert;
-                enabled.push(extension);
-            } else {
-                // Add to end of file
-                const isZendExtension = ['opcache', 'xdebug'].includes(extension);
-                const extensionLine = isZendExtension ? `zend_extension=${extension}` : `extension=${extension}`;
+    const isModuleEnabled = (extension: string): boolean => {
+        const module = findModuleForExtension(modules, extension);
+        return !!module && (enabledModules.includes(module.name) ||
+            moduleChanges.some(change => change.action === 'enable' && change.module === module.name));
+    };
+
+    extensions.forEach(extension => {
+        const module = findModuleForExtension(modules, extension);
+        const unmet = findUnmetDependencies(extension, layout.version, dependency =>
+            loadedModules.includes(dependency) || isModuleEnabled(dependency)
+        );
 
-                content += `\n${extensionLine}`;
-                enabled.push(extension);
+        if (module && enabledModules.includes(module.name)) {
+            alreadyEnabled.push(extension);
+        } else if (module && unmet.length > 0) {
+            console.log(`${colors.yellow}⚠️  Skipping ${extension}: requires ${unmet.join(', ')}, which could not be enabled${colors.reset}`);
+            unmetDependencies.push({ extension, requires: unmet });
+        } else if (module) {
+            if (!moduleChanges.some(change => change.module === module.name)) {
+                moduleChanges.push({ action: 'enable', module: module.name });
             }
+            enabled.push(extension);
+        } else if (loadedModules.includes(extension.toLowerCase())) {
+            // Compiled in, there is nothing to enable
+            alreadyLoaded.push(extension);
         } else {
+            console.log(`${colors.yellow}⚠️  Skipping ${extension}: no ${path.join(layout.modsDir, `${extension}.ini`)} (package not installed)${colors.reset}`);
             missing.push(extension);
         }
     });
 
-    return { content, enabled, missing, alreadyEnabled, alreadyLoaded };
+    return { enabled, missing, alreadyEnabled, alreadyLoaded, unmetDependencies };
 }
 
 /**
- * Adds or updates custom settings in the php.ini file content with better organization.
+ * Moves active extension lines that load before one of their prerequisites
+ *
+ * @param doc - The php.ini document.
+ * @param newlyEnabled - Extensions enabled in this run; they are already reported as enabled.
+ * @param changes - Change list to record the moved lines in.
+ */
+function fixExtensionLoadOrder(doc: IniDocument, newlyEnabled: string[], changes: IniChange[]): void {
+    const loadOrder = getEnabledExtensions(doc);
+    const violations = findLoadOrderViolations(loadOrder);
+    if (violations.length === 0) return;
+
+    reorderExtensionLines(doc, sortByLoadOrder(loadOrder));
+    const moved = violations.filter(violation => !newlyEnabled.includes(violation.extension));
+    moved.forEach(violation => changes.push({ type: 'extension-order', name: violation.extension, reason: `Must load after ${violation.loadedBefore}` }));
+    if (moved.length > 0) {
+        console.log(`${colors.green}🔀 Reordered extension lines: ${moved.map(v => `${v.loadedBefore} before ${v.extension}`).join(', ')}${colors.reset}`);
+    }
+}
+
+/**
+ * Gets the extensions PHP loads from files pia does not manage: there is no extension line
+ * for them in the document and, on Debian-style installations, no mods-available module
+ */
+function getUnmanagedLoadedExtensions(
+    doc: IniDocument,
+    modsLayout: DebianModsLayout | null,
+    phpExecutable: string,
+    iniArgs: string[] = [],
+    env: Record<string, string> = {}
+): string[] {
+    const modules = modsLayout ? listAvailableModules(modsLayout.modsDir) : [];
+    const loadedModules = phpExecutable ? getLoadedModules(phpExecutable, iniArgs, env) : [];
+    return loadedModules.filter(ext => modsLayout ?
+        !findModuleForExtension(modules, ext) :
+        findExtensionLines(doc, ext, true).length === 0);
+}
+
+/**
+ * Resolves conflicting extensions by the profile's policy before anything is enabled. The
+ * checked set is what will be active afterwards: extensions enabled now, loaded from other
+ * files, and requested extensions that are installed. Losers that are enabled get disabled.
+ *
+ * @param doc - The php.ini document.
+ * @param profile - Profile with the requested extensions and conflict preferences.
+ * @param context - Module layout, change lists and the installation details.
+ * @returns The conflict decisions (losers must not be enabled) and the losers left loaded
+ * because another configuration file loads them.
+ */
+function resolveConflictingExtensions(
+    doc: IniDocument,
+    profile: ResolvedProfile,
+    context: {
+        modsLayout: DebianModsLayout | null;
+        moduleChanges: ModuleChange[];
+        changes: IniChange[];
+        extensionsDir: string;
+        phpExecutable: string;
+        phpVersion: string;
+        iniArgs: string[];
+        env: Record<string, string>;
+    }
+): { decisions: ConflictDecision[]; lockedLosers: string[] } {
+    const { modsLayout, moduleChanges, changes, extensionsDir, phpExecutable, phpVersion, iniArgs, env } = context;
+    const modules = modsLayout ? listAvailableModules(modsLayout.modsDir) : [];
+    const enabledModules = modsLayout ? getEnabledModules(modsLayout) : [];
+
+    const isAvailable = (ext: string): boolean => {
+        if (modsLayout) return !!findModuleForExtension(modules, ext);
+        return process.platform !== 'win32' ? isExtensionPackageInstalled(ext, phpVersion, extensionsDir) : extensionExists(extensionsDir, ext);
+    };
+    const active = modsLayout ?
+        enabledModules.filter(name => !profile.disableExtensions.includes(name)) :
+        getEnabledExtensions(doc);
+    const requested = [...profile.essentialExtensions, ...profile.optionalExtensions].filter(isAvailable);
+    // Loaded extensions without a line here come from other files pia leaves alone
+    const locked = getUnmanagedLoadedExtensions(doc, modsLayout, phpExecutable, iniArgs, env).filter(ext => !profile.disableExtensions.includes(ext));
+
+    const { decisions } = resolveExtensionConflicts([...active, ...locked, ...requested], {
+        profileName: profile.name,
+        preferred: profile.preferExtensions,
+        essential: profile.essentialExtensions,
+        locked
+    });
+
+    const lockedLosers: string[] = [];
+    for (const decision of decisions) {
+        console.log(`${colors.yellow}⚔️  ${decision.winner} and ${decision.loser} conflict: keeping ${decision.winner} (${decision.reason})${colors.reset}`);
+        const reason = `Conflicts with ${decision.winner} (${decision.reason})`;
+        if (locked.includes(decision.loser)) {
+            console.log(`${colors.yellow}   ${decision.loser} is loaded from another configuration file, disable it there${colors.reset}`);
+            lockedLosers.push(decision.loser);
+            continue;
+        }
+
+        if (modsLayout) {
+            const module = findModuleForExtension(modules, decision.loser);
+            if (module && enabledModules.includes(module.name) && !moduleChanges.some(change => change.module === module.name)) {
+                moduleChanges.push({ action: 'disable', module: module.name });
+                changes.push({ type: 'extension-disabled', name: decision.loser, reason: `${reason} (phpdismod -s ${modsLayout.sapi})` });
+            }
+        } else if (disableExtension(doc, decision.loser, `Disabled - conflicts with ${decision.winner}`) > 0) {
+            changes.push({ type: 'extension-disabled', name: decision.loser, reason });
+        }
+    }
+
+    return { decisions, lockedLosers };
+}
+
+/**
+ * Settings as they will be written for a PHP version
+ */
+interface VersionedSettings {
+    settings: Record<string, string | number>;  // Directives as written, after version translation
+    requestedKeys: Record<string, string>;      // Requested directive of each written directive
+    skipped: string[];
+}
+
+/**
+ * Checks settings against the directive catalogue: settings the PHP version does not support
+ * are skipped or translated, and unknown keys are reported.
  *
- * @param content - The php.ini file content.
  * @param settings - Key-value pairs of php.ini settings.
- * @returns Object with updated content and statistics.
+ * @param phpVersion - Target PHP version (version checks are skipped when empty).
  */
-function addCustomSettings(content: string, settings: Record<string, string | number>): {
-    content: string;
+function resolveSettingsForVersion(settings: Record<string, string | number>, phpVersion: string = ''): VersionedSettings {
+    const resolved: VersionedSettings = { settings: {}, requestedKeys: {}, skipped: [] };
+
+    for (const [requestedKey, requestedValue] of Object.entries(settings)) {
+        const check = checkDirective(requestedKey, requestedValue, phpVersion);
+        let key = requestedKey;
+        let value = requestedValue;
+
+        if (check.status === 'skipped') {
+            console.log(`${colors.yellow}⚠️  Skipped ${requestedKey}: ${check.message}${colors.reset}`);
+            resolved.skipped.push(requestedKey);
+            continue;
+        } else if (check.status === 'translated') {
+            key = check.targetKey!;
+            value = check.targetValue!;
+            if (key !== requestedKey && key in settings) {
+                // The replacement is set explicitly, so the legacy directive is redundant
+                console.log(`${colors.yellow}⚠️  Skipped ${requestedKey}: ${check.message} (already set)${colors.reset}`);
+                resolved.skipped.push(requestedKey);
+                continue;
+            }
+            console.log(`${colors.cyan}🔁 ${check.message}${colors.reset}`);
+        } else if (check.status === 'unknown') {
+            console.log(`${colors.yellow}⚠️  ${check.message}${colors.reset}`);
+        }
+
+        resolved.settings[key] = value;
+        resolved.requestedKeys[key] = requestedKey;
+    }
+
+    return resolved;
+}
+
+/**
+ * Adds or updates custom settings in the php.ini document
+ *
+ * @param doc - The php.ini document.
+ * @param resolved - Settings as resolved for the PHP version by `resolveSettingsForVersion`.
+ * @param changes - Change list to record updates and additions in.
+ * @param describe - Returns the reason a setting is applied, given the requested directive.
+ * @returns Setting statistics.
+ */
+function addCustomSettings(
+    doc: IniDocument,
+    resolved: VersionedSettings,
+    changes: IniChange[] = [],
+    describe: (key: string) => string = () => 'Requested setting'
+): {
     updated: string[];
     added: string[];
+    unchanged: string[];
+    skipped: string[];
+    applied: Record<string, string | number>;   // Directives as written, after version translation
 } {
     const updated: string[] = [];
     const added: string[] = [];
+    const unchanged: string[] = [];
 
-    for (const [key, value] of Object.entries(settings)) {
-        // Escape special regex characters in key
-        const escapedKey = key.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-        const pattern = new RegExp(`^;?\\s*${escapedKey}\\s*=.*`, 'm');
-        const settingLine = `${key} = ${value}`;
+    for (const [key, value] of Object.entries(resolved.settings)) {
+        const before = getDirectiveValue(doc, key);
+        const result = setDirective(doc, key, value);
 
-        if (pattern.test(content)) {
-            // Update existing setting
-            content = content.replace(pattern, settingLine);
+        if (result === 'updated') {
             updated.push(key);
-        } else {
-            // Add new setting to appropriate section
-            const phpSection = content.indexOf('[PHP]');
-            if (phpSection !== -1) {
-                // Find end of [PHP] section
-                const nextSection = content.indexOf('\n[', phpSection + 1);
-                const insertIndex = nextSection !== -1 ? nextSection : content.length;
-
-                const beforeInsert = content.substring(0, insertIndex);
-                const afterInsert = content.substring(insertIndex);
-
-                content = beforeInsert + `\n${settingLine}` + afterInsert;
-            } else {
-                // Add to end of file
-                content += `\n${settingLine}`;
-            }
+            changes.push({ type: 'setting-updated', name: key, before, after: String(value), reason: describe(resolved.requestedKeys[key]) });
+        } else if (result === 'added') {
             added.push(key);
+            changes.push({ type: 'setting-added', name: key, after: String(value), reason: describe(resolved.requestedKeys[key]) });
+        } else {
+            unchanged.push(key);
         }
     }
 
-    return { content, updated, added };
+    return { updated, added, unchanged, skipped: resolved.skipped, applied: resolved.settings };
 }
 
 /**
- * Creates a backup of the original php.ini file with sudo support
+ * Prints validation errors and warnings
  */
-async function createBackup(filePath: string, useSudo: boolean = false): Promise<string> {
-    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-    const backupPath = `${filePath}.backup.${timestamp}`;
+export function displayValidation(validation: ValidationResult): void {
+    for (const issue of validation.errors) {
+        console.log(`${colors.red}❌ ${issue.message}${colors.reset}`);
+    }
+    for (const issue of validation.warnings) {
+        console.log(`${colors.yellow}⚠️  ${issue.message}${colors.reset}`);
+    }
+}
 
-    try {
-        if (useSudo && process.platform !== 'win32') {
-            // Use sudo for backup on Unix systems
-            const { execSync } = require('child_process');
-            execSync(`sudo cp "${filePath}" "${backupPath}"`, {
-                stdio: ['pipe', 'pipe', 'ignore'] // Suppress output
-            });
-            console.log(`${colors.cyan}📋 Backup created with sudo: ${backupPath}${colors.reset}`);
+/**
+ * Prints directives and extensions that other conf.d files set differently
+ */
+function displayDropInConflicts(conflicts: DropInConflict[]): void {
+    if (conflicts.length === 0) return;
+
+    console.log(`${colors.yellow}⚠️  Other files in the scan directory overlap with the managed drop-in:${colors.reset}`);
+    for (const conflict of conflicts) {
+        const file = path.basename(conflict.file);
+        if (conflict.directive.startsWith('extension:')) {
+            console.log(`   • ${file} already loads ${conflict.value}; remove it from one of the files to avoid "already loaded" warnings`);
+        } else if (conflict.overridesManaged) {
+            console.log(`   • ${colors.red}${file} sets ${conflict.directive} = ${conflict.value} and is loaded later, so it overrides ${conflict.managedValue}${colors.reset}`);
         } else {
-            await fs.copy(filePath, backupPath);
-            console.log(`${colors.cyan}📋 Backup created: ${backupPath}${colors.reset}`);
+            console.log(`   • ${file} sets ${conflict.directive} = ${conflict.value} (overridden by ${conflict.managedValue})`);
         }
-        return backupPath;
-    } catch (error: any) {
-        if (useSudo && process.platform !== 'win32') {
-            // Try with sudo if regular backup failed
-            try {
-                const { execSync } = require('child_process');
-                execSync(`sudo cp "${filePath}" "${backupPath}"`, {
-                    stdio: ['pipe', 'pipe', 'ignore']
-                });
-                console.log(`${colors.cyan}📋 Backup created with sudo: ${backupPath}${colors.reset}`);
-                return backupPath;
-            } catch {
-                console.log(`${colors.yellow}⚠️  Could not create backup (continuing without backup)${colors.reset}`);
-                return '';
-            }
+    }
+}
+
+/**
+ * Prints a unified diff with added/removed lines highlighted
+ */
+export function displayDiff(diff: string): void {
+    for (const line of diff.replace(/\n$/, '').split('\n')) {
+        if (line.startsWith('+++') || line.startsWith('---')) {
+            console.log(`${colors.bright}${line}${colors.reset}`);
+        } else if (line.startsWith('@@')) {
+            console.log(`${colors.cyan}${line}${colors.reset}`);
+        } else if (line.startsWith('+')) {
+            console.log(`${colors.green}${line}${colors.reset}`);
+        } else if (line.startsWith('-')) {
+            console.log(`${colors.red}${line}${colors.reset}`);
         } else {
-            console.log(`${colors.yellow}⚠️  Could not create backup: ${error.message}${colors.reset}`);
-            return '';
+            console.log(line);
         }
     }
 }
 
 /**
- * Reads file with sudo support on Unix systems
+ * Prints the expected and effective value of every verified directive and extension
  */
-async function readFileWithSudo(filePath: string, useSudo: boolean = false): Promise<string> {
-    if (useSudo && process.platform !== 'win32') {
-        // Use sudo to read file on Unix systems
-        const { execSync } = require('child_process');
-        try {
-            const result = execSync(`sudo cat "${filePath}"`, {
-                encoding: 'utf8',
-                stdio: ['pipe', 'pipe', 'ignore']
-            });
-            return result;
-        } catch (error) {
-            // Fallback to normal read
-            return await fs.readFile(filePath, 'utf8');
+export function displayVerification(verification: VerificationResult): void {
+    if (!verification.checked) {
+        console.log(`${colors.yellow}⚠️  Could not run PHP to verify the effective configuration${colors.reset}`);
+        return;
+    }
+
+    const mismatches = verification.items.filter(item => item.status === 'mismatch');
+    console.log(`\n${colors.bright}🔎 Effective configuration (${verification.items.length - mismatches.length}/${verification.items.length} as expected):${colors.reset}`);
+    for (const item of verification.items) {
+        const label = item.kind === 'extension' ? `extension ${item.name}` : item.name;
+        if (item.status === 'ok') {
+            console.log(`   ${colors.green}✓${colors.reset} ${label} = ${item.effective || '""'}`);
+        } else if (item.status === 'mismatch') {
+            console.log(`   ${colors.red}✗ ${label}: expected ${item.expected || '""'}, effective ${item.effective || '""'}${colors.reset}`);
+        } else if (item.status === 'cli-override') {
+            console.log(`   ${colors.cyan}ℹ ${label}: ${item.effective || '""'} in the CLI (always forced), configured ${item.expected || '""'}${colors.reset}`);
+        } else {
+            console.log(`   ${colors.yellow}⚠ ${label}: unknown to PHP (its extension is not loaded), configured ${item.expected || '""'}${colors.reset}`);
         }
-    } else {
-        // Regular file read
-        return await fs.readFile(filePath, 'utf8');
     }
 }
 
 /**
- * Writes file with sudo support on Unix systems
+ * Prints the structured change list
+ */
+export function displayChanges(changes: IniChange[]): void {
+    const labels: Record<IniChangeType, string> = {
+        'extension-enabled': 'enable',
+        'extension-disabled': 'disable',
+        'extension-order': 'reorder',
+        'setting-updated': 'update',
+        'setting-added': 'add',
+        'setting-removed': 'unset',
+        'extension-dir': 'ext dir'
+    };
+
+    for (const change of changes) {
+        const values = change.before !== undefined ?
+            `${change.before} → ${change.after}` :
+            change.after !== undefined ? change.after : '';
+        console.log(`   • ${colors.bright}${labels[change.type].padEnd(7)}${colors.reset} ${change.name}${values ? ` = ${values}` : ''} ${colors.cyan}(${change.reason})${colors.reset}`);
+    }
+}
+
+/**
+ * New content for an ini file, plus the module changes on Debian-style installations
  */
-async function writeFileWithSudo(filePath: string, content: string, useSudo: boolean = false): Promise<void> {
-    if (useSudo && process.platform !== 'win32') {
-        // Use sudo to write file on Unix systems
-        const { execSync } = require('child_process');
-        const tempFile = `/tmp/php-ini-automation-${Date.now()}.tmp`;
+interface PendingIniChange {
+    targetPath: string;
+    targetExists: boolean;
+    content: string;            // Current content
+    updatedContent: string;
+    diff: string;
+    changes: IniChange[];
+    moduleChanges: ModuleChange[];
+    modsLayout: DebianModsLayout | null;
+    iniArgs: string[];          // Arguments PHP is verified with
+    env: Record<string, string>;
+    reason: string;             // Recorded with the backup
+}
 
-        // Write to temp file first
-        await fs.writeFile(tempFile, content, 'utf8');
+/**
+ * Prints the plan in dry-run mode; otherwise backs up the file and applies the new content
+ * and the module changes, each rolled back when PHP no longer starts cleanly
+ */
+async function applyPendingChange(
+    pending: PendingIniChange,
+    dryRun: boolean,
+    useSudo: boolean,
+    phpExecutable: string,
+    options: CustomizeOptions
+): Promise<{ written: boolean; rolledBack: boolean; startupIssues: StartupIssue[] }> {
+    const { targetPath, content, updatedContent, changes, moduleChanges, modsLayout, iniArgs, env } = pending;
+    let written = false;
+    let rolledBack = false;
+    let startupIssues: StartupIssue[] = [];
+
+    if (dryRun) {
+        console.log(`\n${colors.bright}🔍 Dry run - no files were modified${colors.reset}`);
+        if (pending.diff || moduleChanges.length > 0) {
+            if (pending.diff) displayDiff(pending.diff);
+            console.log(`\n${colors.bright}📝 Planned changes (${changes.length}):${colors.reset}`);
+            displayChanges(changes);
+        } else {
+            console.log(`${colors.green}✅ php.ini is already up to date${colors.reset}`);
+        }
+    } else if (updatedContent !== content || moduleChanges.length > 0) {
+        // Create backup with sudo support, then apply the updated file as one transaction
+        if (pending.targetExists && updatedContent !== content) {
+            await createBackup(targetPath, useSudo, {
+                installation: options.installation?.environment,
+                phpVersion: options.installation?.version,
+                phpExecutable: phpExecutable || options.installation?.phpExecutable,
+                reason: pending.reason,
+                storeDir: options.backupDir
+            });
+        }
+        if (updatedContent !== content) {
+            const transaction = await applyIniTransaction(targetPath, content, updatedContent, { useSudo, phpExecutable, iniArgs, env });
+            written = transaction.committed;
+            rolledBack = transaction.rolledBack;
+            startupIssues = transaction.issues;
+        }
 
-        // Move with sudo
-        execSync(`sudo mv "${tempFile}" "${filePath}"`, { stdio: 'inherit' });
-        console.log(`${colors.green}✅ php.ini updated with sudo${colors.reset}`);
+        // Module symlinks live in /etc/php, so they need the same privileges as php.ini. The file and
+        // the modules are one transaction: when the module step fails, the file is restored too.
+        if (modsLayout && !rolledBack && moduleChanges.length > 0) {
+            let moduleResult: ModuleChangeResult;
+            try {
+                moduleResult = applyModuleChanges(modsLayout, moduleChanges, {
+                    useSudo: useSudo || !isWritable(modsLayout.scanDir),
+                    phpExecutable,
+                    iniArgs,
+                    env
+                });
+            } catch (error) {
+                if (written) await rollBackIniFile(targetPath, content, pending.targetExists, useSudo);
+                throw error;
+            }
+
+            if (moduleResult.rolledBack) {
+                if (written) await rollBackIniFile(targetPath, content, pending.targetExists, useSudo);
+                written = false;
+                rolledBack = true;
+            } else {
+                written = written || moduleResult.applied;
+            }
+            startupIssues = [...startupIssues, ...moduleResult.issues];
+        }
     } else {
-        // Regular file write
-        await fs.writeFile(filePath, content, 'utf8');
-        console.log(`${colors.green}✅ php.ini updated${colors.reset}`);
+        console.log(`${colors.green}✅ php.ini is already up to date${colors.reset}`);
     }
+
+    return { written, rolledBack, startupIssues };
 }
 
 /**
@@ -477,244 +806,213 @@ async function writeFileWithSudo(filePath: string, content: string, useSudo: boo
  * @param customSettings - Key-value pairs of additional php.ini settings to add/update.
  * @param useSudo - Whether to use sudo for file operations (auto-detected on Unix).
  * @param phpExecutable - Path to PHP executable for checking loaded modules.
+ * @param options - Additional options such as dry-run mode.
+ * @returns The list of changes and the unified diff of the file.
  */
 export async function customizePhpIni(
     filePath: string,
     extensionsDir: string,
     customSettings: Record<string, string | number> = {},
     useSudo: boolean = false,
-    phpExecutable: string = ''
-): Promise<void> {
-    console.log(`${colors.bright}🔧 Customizing php.ini for Laravel development...${colors.reset}`);
-
-    // Essential Laravel extensions (Laravel 10+ requirements)
-    const ESSENTIAL_EXTENSIONS: string[] = [
-        // Core Laravel requirements
-        'curl',           // HTTP client, API calls
-        'mbstring',       // String manipulation
-        'openssl',        // Encryption, HTTPS
-        'tokenizer',      // PHP tokenization
-        'xml',            // XML processing
-        'ctype',          // Character type checking
-        'json',           // JSON handling
-        'fileinfo',       // File type detection
-
-        // Database support
-        'pdo_mysql',      // MySQL PDO driver
-        'pdo_sqlite',     // SQLite PDO driver
-        'pdo_pgsql',      // PostgreSQL PDO driver
-        'mysqli',         // MySQL improved extension
-        'sqlite3',        // SQLite3 support
-
-        // Laravel features
-        'bcmath',         // Arbitrary precision mathematics
-        'gd',             // Image manipulation
-        'zip',            // Archive handling
-        'intl',           // Internationalization
-        'soap',           // SOAP protocol support
-        'xsl',            // XSL transformations
-        'ldap',           // LDAP directory access
-        'exif',           // Image metadata
-
-        // Performance & caching
-        'opcache',        // PHP opcode caching
-        'apcu'            // User cache
-    ];
+    phpExecutable: string = '',
+    options: CustomizeOptions = {}
+): Promise<CustomizeResult> {
+    const dryRun = !!options.dryRun;
 
-    // Advanced Laravel extensions (optional but recommended)
-    const OPTIONAL_EXTENSIONS: string[] = [
-        // Caching & performance
-        'redis',          // Redis cache driver
-        'memcached',      // Memcached support
-
-        // Image processing
-        'imagick',        // Advanced image manipulation
-        'gmagick',        // GraphicsMagick support
-
-        // Development & debugging
-        'xdebug',         // Debugging and profiling
-        'pcov',           // Code coverage
-
-        // Additional features
-        'imap',           // Email processing
-        'ftp',            // FTP support
-        'ssh2',           // SSH2 protocol
-        'mongodb',        // MongoDB driver
-        'amqp',           // RabbitMQ support
-        'swoole',         // High-performance async framework
-        'yaml'            // YAML parsing
-    ];
+    const profile = typeof options.profile === 'object' ? options.profile : resolveProfile(options.profile);
+    const ESSENTIAL_EXTENSIONS = profile.essentialExtensions;
+    const OPTIONAL_EXTENSIONS = profile.optionalExtensions;
 
-    // Laravel-optimized settings for maximum performance and compatibility
-    const DEFAULT_SETTINGS: Record<string, string | number> = {
-        // === PERFORMANCE SETTINGS ===
-        max_execution_time: 300,           // Extended for Artisan commands
-        memory_limit: '1G',                // Generous for Composer, migrations
-        max_input_vars: 5000,              // Large forms, complex data
-        max_input_time: 300,               // File uploads, data processing
-
-        // === FILE UPLOAD SETTINGS ===
-        post_max_size: '256M',             // Large file uploads
-        upload_max_filesize: '256M',       // Individual file size
-        max_file_uploads: 100,             // Multiple file uploads
-        file_uploads: 'On',                // Enable file uploads
-
-        // === OUTPUT & COMPRESSION ===
-        output_buffering: 8192,            // Optimized buffer size
-        zlib_output_compression: 'On',     // Compress output
-        zlib_output_compression_level: 6,  // Balanced compression
-
-        // === ERROR HANDLING (Development) ===
-        error_reporting: 'E_ALL & ~E_DEPRECATED & ~E_STRICT',
-        display_errors: 'On',              // Show errors in development
-        display_startup_errors: 'On',      // Show startup errors
-        log_errors: 'On',                  // Log errors
-        log_errors_max_len: 8192,          // Error log length
-        ignore_repeated_errors: 'On',      // Avoid spam
-
-        // === SESSION SETTINGS ===
-        'session.gc_maxlifetime': 14400,   // 4 hours session lifetime
-        'session.cookie_lifetime': 0,      // Session cookies
-        'session.cookie_httponly': 'On',   // Security
-        'session.use_strict_mode': 'On',   // Security
-        'session.cookie_samesite': 'Lax',  // CSRF protection
-
-        // === OPCACHE OPTIMIZATION ===
-        'opcache.enable': 1,                    // Enable OPcache
-        'opcache.enable_cli': 1,                // Enable for CLI (Artisan)
-        'opcache.memory_consumption': 512,      // 512MB for OPcache
-        'opcache.interned_strings_buffer': 64,  // String optimization
-        'opcache.max_accelerated_files': 32531, // Max cached files
-        'opcache.revalidate_freq': 0,           // Always check in dev
-        'opcache.validate_timestamps': 1,       // Check file changes
-        'opcache.save_comments': 1,             // Keep docblocks
-        'opcache.fast_shutdown': 1,             // Faster shutdown
-
-        // === REALPATH CACHE ===
-        realpath_cache_size: '8M',         // Path resolution cache
-        realpath_cache_ttl: 7200,          // 2 hours TTL
-
-        // === SECURITY SETTINGS ===
-        expose_php: 'Off',                 // Hide PHP version
-        allow_url_fopen: 'On',             // Laravel needs this
-        allow_url_include: 'Off',          // Security
-
-        // === DATE/TIME ===
-        'date.timezone': 'UTC',            // Default timezone
-
-        // === MBSTRING SETTINGS ===
-        'mbstring.language': 'English',
-        'mbstring.internal_encoding': 'UTF-8',
-        'mbstring.http_output': 'UTF-8'
-    };
+    const frameworkNote = profile.framework ? ` and the ${profile.framework} preset` : '';
+    console.log(`${colors.bright}🔧 Customizing php.ini with the ${profile.name} profile${frameworkNote}...${colors.reset}`);
+
+    // Merge profile and custom settings
+    const mergedSettings = { ...profile.settings, ...customSettings };
 
-    // Merge default and custom settings
-    const mergedSettings = { ...DEFAULT_SETTINGS, ...customSettings };
+    const changes: IniChange[] = [];
+    const mode: ConfigMode = options.mode || 'inplace';
+    const dropIn = mode === 'drop-in';
 
     try {
-        // Create backup with sudo support (try sudo first on Linux)
-        if (useSudo && process.platform !== 'win32') {
-            await createBackup(filePath, true);
-        } else {
-            await createBackup(filePath, useSudo);
+        // Drop-in mode manages 99-pia.ini in the last scan directory and leaves php.ini alone
+        let targetPath = filePath;
+        let scanDir = '';
+        if (dropIn) {
+            const scanDirs = options.scanDir ? [options.scanDir] :
+                options.installation?.scanDir ? [options.installation.scanDir] :
+                phpExecutable ? getPhpIniScanDirs(phpExecutable) : [];
+            scanDir = scanDirs[scanDirs.length - 1] || '';
+            if (!scanDir) {
+                throw new Error('PHP does not scan a directory for additional .ini files, use --mode=inplace');
+            }
+            targetPath = getDropInPath(scanDir);
+            if (!useSudo && process.platform !== 'win32' && !isWritable(fs.existsSync(targetPath) ? targetPath : scanDir)) {
+                useSudo = true;
+            }
+            console.log(`${colors.cyan}📂 Drop-in mode: managing ${targetPath}${colors.reset}`);
         }
 
-        let content = await readFileWithSudo(filePath, useSudo);
-        console.log(`${colors.green}✅ php.ini file loaded (${content.length} bytes)${colors.reset}`);
+        const targetExists = fs.existsSync(targetPath);
+        const content = targetExists || !dropIn ? await readFileWithSudo(targetPath, useSudo) : createDropInContent();
+        console.log(`${colors.green}✅ ${dropIn ? 'Drop-in' : 'php.ini'} file ${targetExists ? 'loaded' : 'created'} (${content.length} bytes)${colors.reset}`);
 
-        // Clean up problematic extensions first
-        console.log(`${colors.cyan}🧹 Cleaning up problematic extensions...${colors.reset}`);
-        const originalContent = content;
-        content = removeProblematicExtensions(content, phpExecutable);
+        const doc = parseIniDocument(content);
+        const phpVersion = options.installation?.version || (phpExecutable ? getPhpVersion(phpExecutable) : '');
 
-        // Remove duplicate built-in extensions
-        const builtInExtensions = ['ctype', 'fileinfo', 'tokenizer', 'exif'];
-        for (const ext of builtInExtensions) {
-            const patterns = [
-                new RegExp(`^\\s*extension\\s*=\\s*${ext}\\s*$`, 'gm'),
-                new RegExp(`^\\s*zend_extension\\s*=\\s*${ext}\\s*$`, 'gm')
-            ];
+        // Debian/Ubuntu: extensions are switched per SAPI with phpenmod/phpdismod, never with extension= lines
+        const modsLayout = process.platform !== 'win32' && filePath ? detectDebianModsLayout(filePath, options.scanDir) : null;
+        const moduleChanges: ModuleChange[] = [];
+        if (modsLayout) {
+            console.log(`${colors.cyan}📦 Debian mods-available layout: managing ${modsLayout.sapi} extensions with phpenmod/phpdismod${colors.reset}`);
+        }
 
-            for (const pattern of patterns) {
-                content = content.replace(pattern, `;extension=${ext} ; Disabled - built-in module`);
+        // Probe and verify with the SAPI's php.ini and scan directory; a drop-in is verified
+        // through the php.ini that includes it
+        const iniArgs = dropIn ? (options.scanDir && filePath ? ['-c', filePath] : []) : ['-c', targetPath];
+        const env: Record<string, string> = options.scanDir ? { PHP_INI_SCAN_DIR: options.scanDir } : {};
+
+        // In drop-in mode the values we override come from php.ini
+        const baseDoc = dropIn && filePath && fs.existsSync(filePath) ? parseIniDocument(await readFileWithSudo(filePath, useSudo)) : null;
+
+        // Validate the settings as they will be written for this PHP version before changing anything
+        const versionedSettings = resolveSettingsForVersion(mergedSettings, phpVersion);
+        const validation = validateSettings(versionedSettings.settings, key =>
+            getDirectiveValue(doc, key) ?? (baseDoc ? getDirectiveValue(baseDoc, key) : undefined)
+        );
+        displayValidation(validation);
+        if (!validation.valid) {
+            console.log(`${colors.red}❌ ${validation.errors.length} invalid setting(s), ${path.basename(targetPath)} was not modified${colors.reset}`);
+            return { filePath: targetPath, mode, sapi: options.sapi, dryRun, written: false, rolledBack: false, startupIssues: [], changes: [], diff: '', validation, conflicts: [], extensionConflicts: [] };
+        }
+
+        if (!dropIn) {
+            // Clean up problematic extensions first
+            console.log(`${colors.cyan}🧹 Cleaning up problematic extensions...${colors.reset}`);
+            removeProblematicExtensions(doc, phpExecutable, filePath, changes, env);
+
+            // Remove duplicate built-in extensions
+            for (const ext of getBuiltInExtensions()) {
+                if (disableExtension(doc, ext, 'Disabled - built-in module') > 0) {
+                    changes.push({ type: 'extension-disabled', name: ext, reason: 'Built-in module' });
+                }
+            }
+        }
+
+        // Disable extensions the profile (or project configuration) turns off; pia cannot unload
+        // the ones loaded from other configuration files
+        const unmanagedDisabled = profile.disableExtensions.length > 0 ?
+            getUnmanagedLoadedExtensions(doc, modsLayout, phpExecutable, iniArgs, env).filter(ext => profile.disableExtensions.includes(ext)) : [];
+        unmanagedDisabled.forEach(ext => {
+            console.log(`${colors.yellow}⚠️  ${ext} is loaded from another configuration file, disable it there${colors.reset}`);
+        });
+        for (const ext of profile.disableExtensions) {
+            if (disableExtension(doc, ext, `Disabled - ${profile.name} profile`) > 0) {
+                changes.push({ type: 'extension-disabled', name: ext, reason: `Disabled by ${profile.name} profile` });
+            }
+        }
+        if (modsLayout) {
+            const modules = listAvailableModules(modsLayout.modsDir);
+            const enabledModules = getEnabledModules(modsLayout);
+            for (const ext of profile.disableExtensions) {
+                const module = findModuleForExtension(modules, ext);
+                if (module && enabledModules.includes(module.name)) {
+                    moduleChanges.push({ action: 'disable', module: module.name });
+                    changes.push({ type: 'extension-disabled', name: ext, reason: `Disabled by ${profile.name} profile (phpdismod -s ${modsLayout.sapi})` });
+                }
             }
         }
 
         // Fix OPcache and XDebug to use zend_extension instead of extension
-        const zendExtensions = ['opcache', 'xdebug'];
-        for (const ext of zendExtensions) {
-            const wrongPattern = new RegExp(`^\\s*extension\\s*=\\s*${ext}\\s*$`, 'gm');
-            if (wrongPattern.test(content)) {
-                content = content.replace(wrongPattern, `zend_extension=${ext}`);
+        for (const ext of getZendExtensions()) {
+            if (setExtensionDirective(doc, ext, true) > 0) {
+                changes.push({ type: 'extension-enabled', name: ext, before: 'extension', after: 'zend_extension', reason: 'Must be loaded as a Zend extension' });
                 console.log(`${colors.green}🔧 Fixed ${ext}: converted extension= to zend_extension=${colors.reset}`);
             }
         }
 
-        // On Linux, aggressively clean up extensions without packages
+        // On Linux, clean up extensions without packages
         if (process.platform !== 'win32') {
             const allExtensions = [...ESSENTIAL_EXTENSIONS, ...OPTIONAL_EXTENSIONS];
             let cleanedCount = 0;
 
             for (const ext of allExtensions) {
-                if (!isExtensionPackageInstalled(ext)) {
-                    const patterns = [
-                        new RegExp(`^\\s*extension\\s*=\\s*${ext}\\s*$`, 'gm'),
-                        new RegExp(`^\\s*zend_extension\\s*=\\s*${ext}\\s*$`, 'gm')
-                    ];
-
-                    for (const pattern of patterns) {
-                        if (pattern.test(content)) {
-                            content = content.replace(pattern, `;extension=${ext} ; Disabled - package not installed`);
-                            cleanedCount++;
-                        }
+                if (!isExtensionPackageInstalled(ext, phpVersion, extensionsDir)) {
+                    const count = disableExtension(doc, ext, 'Disabled - package not installed');
+                    if (count > 0) {
+                        changes.push({ type: 'extension-disabled', name: ext, reason: 'Package not installed' });
+                        cleanedCount += count;
                     }
                 }
             }
 
             if (cleanedCount > 0) {
                 console.log(`${colors.green}🧹 Cleaned up ${cleanedCount} extensions without packages${colors.reset}`);
-
-                // Save the cleanup immediately to prevent re-enabling
-                await writeFileWithSudo(filePath, content, true);
-                console.log(`${colors.green}💾 Cleanup changes saved immediately${colors.reset}`);
             }
         }
 
-        // If content changed, save it immediately to fix the issues
-        if (content !== originalContent) {
-            console.log(`${colors.yellow}💾 Saving cleanup changes with sudo...${colors.reset}`);
-            await writeFileWithSudo(filePath, content, true);
-            console.log(`${colors.green}✅ Cleanup changes saved successfully${colors.reset}`);
-        }
-
-        // Update extension_dir if provided
-        if (extensionsDir && fs.existsSync(extensionsDir)) {
+        // Update extension_dir if provided (drop-ins rely on the one PHP already uses)
+        if (!dropIn && extensionsDir && fs.existsSync(extensionsDir)) {
             const normalizedPath = extensionsDir.replace(/\\/g, '/');
-            const extensionDirPattern = /;?\s*extension_dir\s*=\s*".*?"/;
+            const before = getDirectiveValue(doc, 'extension_dir');
+            const result = setDirective(doc, 'extension_dir', normalizedPath, { quote: true });
 
-            if (extensionDirPattern.test(content)) {
-                content = content.replace(extensionDirPattern, `extension_dir = "${normalizedPath}"`);
-                console.log(`${colors.green}✅ Extension directory updated: ${normalizedPath}${colors.reset}`);
-            } else {
-                content = `extension_dir = "${normalizedPath}"\n` + content;
+            if (result !== 'unchanged') {
+                changes.push({ type: 'extension-dir', name: 'extension_dir', before, after: normalizedPath, reason: 'Detected extension directory' });
+            }
+
+            if (result === 'added') {
                 console.log(`${colors.green}✅ Extension directory added: ${normalizedPath}${colors.reset}`);
+            } else {
+                console.log(`${colors.green}✅ Extension directory updated: ${normalizedPath}${colors.reset}`);
             }
         }
 
+        // Check the extensions that will be active afterwards for known conflicts (xdebug and pcov)
+        const { decisions: extensionConflicts, lockedLosers } = resolveConflictingExtensions(doc, profile, {
+            modsLayout, moduleChanges, changes, extensionsDir, phpExecutable, phpVersion, iniArgs, env
+        });
+        const losers = extensionConflicts.map(decision => decision.loser);
+
+        // Requested extensions bring their prerequisites (pdo for pdo_mysql) and are processed in load order
+        const essential = expandExtensionDependencies(ESSENTIAL_EXTENSIONS.filter(ext => !losers.includes(ext)), phpVersion);
+        const optional = expandExtensionDependencies(OPTIONAL_EXTENSIONS.filter(ext => !losers.includes(ext)), phpVersion);
+        const essentialExtensions = essential.extensions;
+        const optionalExtensions = optional.extensions.filter(ext => !essentialExtensions.includes(ext));
+        const prerequisites: Prerequisite[] = [...essential.prerequisites, ...optional.prerequisites];
+        if (prerequisites.length > 0) {
+            console.log(`${colors.cyan}🔗 Prerequisites: ${prerequisites.map(p => `${p.extension} (for ${p.requiredBy})`).join(', ')}${colors.reset}`);
+        }
+
         // Enable essential extensions
         console.log(`${colors.bright}📦 Processing extensions...${colors.reset}`);
-        const extensionResult = enableExtensions(content, ESSENTIAL_EXTENSIONS, extensionsDir, phpExecutable);
-        content = extensionResult.content;
+        const extensionResult = modsLayout ?
+            enableModules(modsLayout, essentialExtensions, phpExecutable, moduleChanges, iniArgs, env) :
+            enableExtensions(doc, essentialExtensions, extensionsDir, phpExecutable, phpVersion, iniArgs, env);
 
         // Try optional extensions
-        const optionalResult = enableExtensions(content, OPTIONAL_EXTENSIONS, extensionsDir, phpExecutable);
-        content = optionalResult.content;
+        const optionalResult = modsLayout ?
+            enableModules(modsLayout, optionalExtensions, phpExecutable, moduleChanges, iniArgs, env) :
+            enableExtensions(doc, optionalExtensions, extensionsDir, phpExecutable, phpVersion, iniArgs, env);
+
+        const via = modsLayout ? ` (phpenmod -s ${modsLayout.sapi})` : '';
+        const describeEnabled = (ext: string, reason: string): string => {
+            const prerequisite = prerequisites.find(p => p.extension === ext);
+            return `${prerequisite ? `Required by ${prerequisite.requiredBy}` : reason}${via}`;
+        };
+        extensionResult.enabled.forEach(ext => changes.push({ type: 'extension-enabled', name: ext, reason: describeEnabled(ext, `Essential extension (${profile.name} profile)`) }));
+        optionalResult.enabled.forEach(ext => changes.push({ type: 'extension-enabled', name: ext, reason: describeEnabled(ext, 'Optional extension, installed') }));
+
+        // Lines that were already active can still load before their prerequisites (redis before igbinary)
+        if (!modsLayout) {
+            fixExtensionLoadOrder(doc, [...extensionResult.enabled, ...optionalResult.enabled], changes);
+        }
 
         // Report extension results with better categorization
         const totalEnabled = extensionResult.enabled.concat(optionalResult.enabled);
         const totalMissing = extensionResult.missing.concat(optionalResult.missing);
         const totalAlreadyEnabled = extensionResult.alreadyEnabled.concat(optionalResult.alreadyEnabled);
         const totalAlreadyLoaded = extensionResult.alreadyLoaded.concat(optionalResult.alreadyLoaded);
+        const unmetDependencies = extensionResult.unmetDependencies.concat(optionalResult.unmetDependencies);
 
         // Separate essential vs optional missing extensions
         const essentialMissing = extensionResult.missing;
@@ -733,20 +1031,25 @@ export async function customizePhpIni(
         }
 
         if (essentialMissing.length > 0) {
-            console.log(`${colors.yellow}⚠️  Missing Laravel extensions: ${essentialMissing.join(', ')}${colors.reset}`);
-            console.log(`${colors.yellow}   💡 Install with: sudo apt install ${essentialMissing.map(ext => `php-${ext}`).join(' ')}${colors.reset}`);
+            console.log(`${colors.yellow}⚠️  Missing essential extensions: ${essentialMissing.join(', ')}${colors.reset}`);
+            console.log(`${colors.yellow}   💡 Install with: ${formatInstallHint(essentialMissing, phpVersion)}${colors.reset}`);
             console.log(`${colors.yellow}   🔄 Run 'pia' again after installation to verify${colors.reset}`);
         }
 
         if (optionalMissing.length > 0) {
             console.log(`${colors.cyan}ℹ️  Optional extensions not found: ${optionalMissing.join(', ')}${colors.reset}`);
-            console.log(`${colors.cyan}   💡 Install with: sudo apt install ${optionalMissing.map(ext => `php-${ext}`).join(' ')}${colors.reset}`);
+            console.log(`${colors.cyan}   💡 Install with: ${formatInstallHint(optionalMissing, phpVersion)}${colors.reset}`);
+        }
+
+        if (unmetDependencies.length > 0) {
+            console.log(`${colors.yellow}⚠️  Not enabled, missing prerequisites: ${unmetDependencies.map(u => `${u.extension} (needs ${u.requires.join(', ')})`).join(', ')}${colors.reset}`);
         }
 
         // Add or update custom settings
         console.log(`${colors.bright}⚙️  Applying configuration settings...${colors.reset}`);
-        const settingsResult = addCustomSettings(content, mergedSettings);
-        content = settingsResult.content;
+        const settingsResult = addCustomSettings(doc, versionedSettings, changes, key =>
+            key in customSettings ? 'Custom setting' : `${profile.name} profile`
+        );
 
         if (settingsResult.updated.length > 0) {
             console.log(`${colors.green}✅ Updated settings: ${settingsResult.updated.join(', ')}${colors.reset}`);
@@ -756,17 +1059,349 @@ export async function customizePhpIni(
             console.log(`${colors.green}✅ Added settings: ${settingsResult.added.join(', ')}${colors.reset}`);
         }
 
-        // Save updated php.ini with sudo support
-        await writeFileWithSudo(filePath, content, useSudo);
+        const updatedContent = serializeIniDocument(doc);
+        const diff = createUnifiedDiff(targetExists ? content : '', updatedContent, `${targetPath} (current)`, `${targetPath} (updated)`);
+
+        const conflicts = dropIn ? findDropInConflicts(scanDir, updatedContent) : [];
+        displayDropInConflicts(conflicts);
+
+        const { written, rolledBack, startupIssues } = await applyPendingChange({
+            targetPath, targetExists, content, updatedContent, diff, changes, moduleChanges, modsLayout, iniArgs, env,
+            reason: `pia configure${options.sapi ? ` (${options.sapi})` : ''}: ${changes.length} change(s)`
+        }, dryRun, useSudo, phpExecutable, options);
+
+        // Ask PHP what actually took effect: earlier conf.d files or a wrong extension_dir can override what was written
+        let verification: VerificationResult | undefined;
+        if (!dryRun && !rolledBack && phpExecutable) {
+            verification = verifyEffectiveConfiguration(phpExecutable, {
+                settings: settingsResult.applied,
+                loaded: [...totalEnabled, ...totalAlreadyEnabled, ...totalAlreadyLoaded],
+                // Only what pia disabled itself; extensions loaded from other files stay loaded
+                notLoaded: [
+                    ...profile.disableExtensions.filter(ext => !unmanagedDisabled.includes(ext)),
+                    ...losers.filter(ext => !lockedLosers.includes(ext))
+                ]
+            }, iniArgs, env);
+            displayVerification(verification);
+        }
 
         // Summary
         console.log(`\n${colors.bright}📊 Configuration Summary:${colors.reset}`);
-        console.log(`   • Extensions enabled: ${totalEnabled.length + totalAlreadyEnabled.length}/${ESSENTIAL_EXTENSIONS.length + OPTIONAL_EXTENSIONS.length}`);
-        console.log(`   • Settings configured: ${settingsResult.updated.length + settingsResult.added.length}`);
-        console.log(`   • File size: ${content.length} bytes`);
+        console.log(`   • Extensions enabled: ${totalEnabled.length + totalAlreadyEnabled.length}/${essentialExtensions.length + optionalExtensions.length}`);
+        console.log(`   • Settings configured: ${settingsResult.updated.length + settingsResult.added.length + settingsResult.unchanged.length}`);
+        console.log(`   • File size: ${updatedContent.length} bytes`);
+        extensionConflicts.forEach(decision => {
+            const outcome = lockedLosers.includes(decision.loser) ? `${decision.loser} is loaded from another file` : `disabled ${decision.loser}`;
+            console.log(`   • Conflict: kept ${decision.winner}, ${outcome} (${decision.reason})`);
+        });
+        if (rolledBack) {
+            console.log(`   • ${colors.red}Changes rolled back: PHP failed to start with the new configuration${colors.reset}`);
+        }
 
+        return { filePath: targetPath, mode, sapi: options.sapi, dryRun, written, rolledBack, startupIssues, changes, diff, validation, conflicts, extensionConflicts, verification };
     } catch (error: any) {
         console.error(`${colors.red}❌ Failed to customize php.ini: ${error.message}${colors.reset}`);
         throw new Error(`Failed to customize php.ini: ${error.message}`);
     }
 }
+
+export type ExtensionState = 'loaded' | 'file-enabled' | 'available' | 'package-missing' | 'compiled-in';
+
+/**
+ * Where an extension stands in one installation
+ */
+export interface ExtensionStatus {
+    name: string;
+    state: ExtensionState;
+    zend: boolean;              // Loaded with zend_extension=
+    fileEnabled: boolean;       // Active line in php.ini, or an enabled mods-available module
+    loaded: boolean;            // Reported by php -m
+    available: boolean;         // Module in extension_dir, mods-available file or installed package
+    otherFile: boolean;         // Loaded by a configuration file pia does not manage
+}
+
+export interface ExtensionToggleOptions {
+    dryRun?: boolean;           // Print the diff and module changes without applying them
+    backupDir?: string;         // Central backup store instead of the php.ini directory
+}
+
+export interface ExtensionToggleResult {
+    filePath: string;
+    dryRun: boolean;
+    written: boolean;
+    rolledBack: boolean;        // The change broke PHP startup and was reverted
+    startupIssues: StartupIssue[];
+    changes: IniChange[];
+    missing: string[];          // Not installed, or a prerequisite is missing
+    skipped: string[];          // Compiled in or loaded from another file, nothing to switch here
+    extensionConflicts: ConflictDecision[];
+    verification?: VerificationResult;
+}
+
+/**
+ * Lists the module files in an extension directory by extension name
+ */
+function listExtensionModules(extensionDir: string): string[] {
+    if (!extensionDir || !fs.existsSync(extensionDir)) return [];
+
+    return fs.readdirSync(extensionDir)
+        .filter(fileName => /\.(so|dll|dylib)$/i.test(fileName))
+        .map(fileName => extensionNameFromValue(fileName));
+}
+
+/**
+ * Reports every extension an installation knows about (loaded, in php.ini, in extension_dir
+ * or mods-available, or requested) as loaded, file-enabled, available, package-missing or
+ * compiled-in.
+ *
+ * @param installation - Installation to inspect.
+ * @param requested - Extensions to include even when nothing mentions them, e.g. the profile's.
+ * @param useSudo - Read php.ini with sudo.
+ */
+export async function listPhpExtensions(installation: PhpInstallation, requested: string[] = [], useSudo: boolean = false): Promise<ExtensionStatus[]> {
+    const doc = parseIniDocument(await readFileWithSudo(installation.iniPath, useSudo));
+    const modsLayout = process.platform !== 'win32' ? detectDebianModsLayout(installation.iniPath) : null;
+    const modules = modsLayout ? listAvailableModules(modsLayout.modsDir) : [];
+    const enabledModules = modsLayout ? getEnabledModules(modsLayout) : [];
+    const moduleFiles = listExtensionModules(installation.extensionDir);
+    const loadedModules = getLoadedModules(installation.phpExecutable, ['-c', installation.iniPath]);
+
+    const lines = doc.lines
+        .filter(line => line.type === 'directive' && ['extension', 'zend_extension'].includes(line.key!.toLowerCase()))
+        .map(line => extensionNameFromValue(line.value || ''));
+    const names = [...new Set([...loadedModules, ...lines, ...moduleFiles, ...modules.map(module => module.name), ...requested]
+        .map(name => resolveExtensionName(name)))]
+        .sort();
+
+    return names.map(name => {
+        const module = modsLayout ? findModuleForExtension(modules, name) : undefined;
+        const fileEnabled = isExtensionEnabled(doc, name) || (!!module && enabledModules.includes(module.name));
+        const loaded = loadedModules.includes(name);
+        const onDisk = !!module || moduleFiles.includes(name);
+        const available = onDisk || (process.platform !== 'win32' && isExtensionPackageInstalled(name, installation.version, installation.extensionDir));
+        // Loaded without a module file, or always part of the PHP binary
+        const compiledIn = (loaded && !fileEnabled && !onDisk) || (!onDisk && isCompiledIn(name, installation.version));
+
+        let state: ExtensionState = 'package-missing';
+        if (compiledIn) state = 'compiled-in';
+        else if (loaded) state = 'loaded';
+        else if (fileEnabled) state = 'file-enabled';
+        else if (available) state = 'available';
+
+        return {
+            name,
+            state,
+            zend: isZendExtension(name) || !!module?.zend,
+            fileEnabled,
+            loaded,
+            available,
+            otherFile: loaded && !fileEnabled && !compiledIn
+        };
+    });
+}
+
+/**
+ * Reads an installation's php.ini and detects its module layout for enabling or disabling
+ */
+async function loadExtensionTarget(installation: PhpInstallation, useSudo: boolean): Promise<{
+    content: string;
+    doc: IniDocument;
+    modsLayout: DebianModsLayout | null;
+    moduleChanges: ModuleChange[];
+    changes: IniChange[];
+}> {
+    const content = await readFileWithSudo(installation.iniPath, useSudo);
+    const modsLayout = process.platform !== 'win32' ? detectDebianModsLayout(installation.iniPath) : null;
+    if (modsLayout) {
+        console.log(`${colors.cyan}📦 Debian mods-available layout: managing ${modsLayout.sapi} extensions with phpenmod/phpdismod${colors.reset}`);
+    }
+    return { content, doc: parseIniDocument(content), modsLayout, moduleChanges: [], changes: [] };
+}
+
+/**
+ * Enables extensions in an installation without touching anything else: prerequisites are
+ * enabled first, Zend extensions get zend_extension= lines, conflicting extensions are
+ * disabled in favour of the requested ones, and Debian-style installations use phpenmod.
+ *
+ * @param installation - Installation to change.
+ * @param extensions - Extensions to enable.
+ * @param useSudo - Whether to use sudo for file operations.
+ * @param options - Dry-run mode and the backup store.
+ */
+export async function enablePhpExtensions(
+    installation: PhpInstallation,
+    extensions: string[],
+    useSudo: boolean = false,
+    options: ExtensionToggleOptions = {}
+): Promise<ExtensionToggleResult> {
+    const { phpExecutable, extensionDir, version: phpVersion, iniPath } = installation;
+    const dryRun = !!options.dryRun;
+    const { content, doc, modsLayout, moduleChanges, changes } = await loadExtensionTarget(installation, useSudo);
+    const iniArgs = ['-c', iniPath];
+
+    const names = [...new Set(extensions.map(extension => resolveExtensionName(extension)))];
+    const compiledIn = names.filter(name => isCompiledIn(name, phpVersion));
+    compiledIn.forEach(name => console.log(`${colors.cyan}ℹ️  ${name} is compiled into PHP ${phpVersion}, there is nothing to enable${colors.reset}`));
+
+    // The requested extensions win conflicts with whatever is enabled now
+    const requested = names.filter(name => !compiledIn.includes(name));
+    const extensionProfile: ResolvedProfile = {
+        name: 'ext enable',
+        description: 'Extensions enabled by pia ext enable',
+        chain: [],
+        essentialExtensions: requested,
+        optionalExtensions: [],
+        disableExtensions: [],
+        preferExtensions: requested,
+        settings: {}
+    };
+    const { decisions: extensionConflicts, lockedLosers } = resolveConflictingExtensions(doc, extensionProfile, {
+        modsLayout, moduleChanges, changes, extensionsDir: extensionDir, phpExecutable, phpVersion, iniArgs, env: {}
+    });
+    const losers = extensionConflicts.map(decision => decision.loser);
+    const disabledLosers = losers.filter(loser => !lockedLosers.includes(loser));
+
+    const expanded = expandExtensionDependencies(requested.filter(name => !losers.includes(name)), phpVersion);
+    if (expanded.prerequisites.length > 0) {
+        console.log(`${colors.cyan}🔗 Prerequisites: ${expanded.prerequisites.map(p => `${p.extension} (for ${p.requiredBy})`).join(', ')}${colors.reset}`);
+    }
+    const stats = modsLayout ?
+        enableModules(modsLayout, expanded.extensions, phpExecutable, moduleChanges, iniArgs) :
+        enableExtensions(doc, expanded.extensions, extensionDir, phpExecutable, phpVersion, iniArgs);
+
+    const via = modsLayout ? ` (phpenmod -s ${modsLayout.sapi})` : '';
+    stats.enabled.forEach(ext => {
+        const prerequisite = expanded.prerequisites.find(p => p.extension === ext);
+        changes.push({ type: 'extension-enabled', name: ext, reason: `${prerequisite ? `Required by ${prerequisite.requiredBy}` : 'Requested'}${via}` });
+    });
+    if (!modsLayout) {
+        // An existing extension=xdebug line does not load a Zend extension
+        for (const ext of expanded.extensions.filter(isZendExtension)) {
+            if (setExtensionDirective(doc, ext, true) > 0) {
+                changes.push({ type: 'extension-enabled', name: ext, before: 'extension', after: 'zend_extension', reason: 'Must be loaded as a Zend extension' });
+            }
+        }
+        fixExtensionLoadOrder(doc, stats.enabled, changes);
+    }
+
+    if (stats.alreadyEnabled.length > 0) {
+        console.log(`${colors.cyan}ℹ️  Already enabled: ${stats.alreadyEnabled.join(', ')}${colors.reset}`);
+    }
+    if (stats.alreadyLoaded.length > 0) {
+        console.log(`${colors.blue}🔄 Already loaded: ${stats.alreadyLoaded.join(', ')}${colors.reset}`);
+    }
+    if (stats.missing.length > 0) {
+        console.log(`${colors.yellow}⚠️  Not installed: ${stats.missing.join(', ')}${colors.reset}`);
+        console.log(`${colors.yellow}   💡 Install with: pia ext install ${stats.missing.join(' ')} (or ${formatInstallHint(stats.missing, phpVersion)})${colors.reset}`);
+    }
+    if (stats.unmetDependencies.length > 0) {
+        console.log(`${colors.yellow}⚠️  Not enabled, missing prerequisites: ${stats.unmetDependencies.map(u => `${u.extension} (needs ${u.requires.join(', ')})`).join(', ')}${colors.reset}`);
+    }
+
+    const updatedContent = serializeIniDocument(doc);
+    const diff = createUnifiedDiff(content, updatedContent, `${iniPath} (current)`, `${iniPath} (updated)`);
+    const applied = await applyPendingChange({
+        targetPath: iniPath, targetExists: true, content, updatedContent, diff, changes, moduleChanges, modsLayout, iniArgs, env: {},
+        reason: `pia ext enable: ${requested.join(', ')}`
+    }, dryRun, useSudo, phpExecutable, { installation, backupDir: options.backupDir });
+
+    if (!dryRun && applied.written) {
+        console.log(`\n${colors.bright}📝 Changes:${colors.reset}`);
+        displayChanges(changes);
+    }
+
+    const expectedLoaded = [...stats.enabled, ...stats.alreadyEnabled, ...stats.alreadyLoaded];
+    let verification: VerificationResult | undefined;
+    if (!dryRun && !applied.rolledBack && phpExecutable && expectedLoaded.length + disabledLosers.length > 0) {
+        verification = verifyEffectiveConfiguration(phpExecutable, { settings: {}, loaded: expectedLoaded, notLoaded: disabledLosers }, iniArgs);
+        displayVerification(verification);
+    }
+
+    return {
+        filePath: iniPath,
+        dryRun,
+        ...applied,
+        changes,
+        missing: [...stats.missing, ...stats.unmetDependencies.map(u => u.extension)],
+        skipped: [...compiledIn, ...losers.filter(loser => requested.includes(loser))],
+        extensionConflicts,
+        verification
+    };
+}
+
+/**
+ * Disables extensions in an installation. Enabled extensions that need one of them (pdo_mysql
+ * for pdo) are disabled as well, since PHP could not load them any more.
+ *
+ * @param installation - Installation to change.
+ * @param extensions - Extensions to disable.
+ * @param useSudo - Whether to use sudo for file operations.
+ * @param options - Dry-run mode and the backup store.
+ */
+export async function disablePhpExtensions(
+    installation: PhpInstallation,
+    extensions: string[],
+    useSudo: boolean = false,
+    options: ExtensionToggleOptions = {}
+): Promise<ExtensionToggleResult> {
+    const { phpExecutable, version: phpVersion, iniPath } = installation;
+    const dryRun = !!options.dryRun;
+    const { content, doc, modsLayout, moduleChanges, changes } = await loadExtensionTarget(installation, useSudo);
+    const modules = modsLayout ? listAvailableModules(modsLayout.modsDir) : [];
+    const enabledModules = modsLayout ? getEnabledModules(modsLayout) : [];
+    const iniArgs = ['-c', iniPath];
+    const loadedModules = phpExecutable ? getLoadedModules(phpExecutable, iniArgs) : [];
+
+    const active = modsLayout ? enabledModules.map(name => resolveExtensionName(name)) : getEnabledExtensions(doc).map(name => resolveExtensionName(name));
+    const names = [...new Set(extensions.map(extension => resolveExtensionName(extension)))];
+    // Add dependents until nothing left enabled needs a disabled extension
+    for (let i = 0; i < names.length; i++) {
+        for (const dependent of active.filter(ext => !names.includes(ext) && getExtensionDependencies(ext).includes(names[i]))) {
+            console.log(`${colors.cyan}🔗 Also disabling ${dependent} (requires ${names[i]})${colors.reset}`);
+            names.push(dependent);
+        }
+    }
+
+    const disabled: string[] = [];
+    const skipped: string[] = [];
+    for (const name of names) {
+        const reason = extensions.some(extension => resolveExtensionName(extension) === name) ? 'Requested' : 'Requires a disabled extension';
+        const module = modsLayout ? findModuleForExtension(modules, name) : undefined;
+        if (modsLayout && module && enabledModules.includes(module.name)) {
+            moduleChanges.push({ action: 'disable', module: module.name });
+            changes.push({ type: 'extension-disabled', name, reason: `${reason} (phpdismod -s ${modsLayout.sapi})` });
+            disabled.push(name);
+        } else if (disableExtension(doc, name, 'Disabled by pia ext disable') > 0) {
+            changes.push({ type: 'extension-disabled', name, reason });
+            disabled.push(name);
+        } else if (isCompiledIn(name, phpVersion) || (loadedModules.includes(name) && !module && !listExtensionModules(installation.extensionDir).includes(name))) {
+            console.log(`${colors.yellow}⚠️  ${name} is compiled into PHP ${phpVersion} and cannot be disabled${colors.reset}`);
+            skipped.push(name);
+        } else if (loadedModules.includes(name)) {
+            console.log(`${colors.yellow}⚠️  ${name} is loaded from another configuration file, disable it there (see ${phpExecutable} --ini)${colors.reset}`);
+            skipped.push(name);
+        } else {
+            console.log(`${colors.cyan}ℹ️  ${name} is not enabled${colors.reset}`);
+        }
+    }
+
+    const updatedContent = serializeIniDocument(doc);
+    const diff = createUnifiedDiff(content, updatedContent, `${iniPath} (current)`, `${iniPath} (updated)`);
+    const applied = await applyPendingChange({
+        targetPath: iniPath, targetExists: true, content, updatedContent, diff, changes, moduleChanges, modsLayout, iniArgs, env: {},
+        reason: `pia ext disable: ${disabled.join(', ')}`
+    }, dryRun, useSudo, phpExecutable, { installation, backupDir: options.backupDir });
+
+    if (!dryRun && applied.written) {
+        console.log(`\n${colors.bright}📝 Changes:${colors.reset}`);
+        displayChanges(changes);
+    }
+
+    let verification: VerificationResult | undefined;
+    if (!dryRun && !applied.rolledBack && phpExecutable && disabled.length > 0) {
+        verification = verifyEffectiveConfiguration(phpExecutable, { settings: {}, loaded: [], notLoaded: disabled }, iniArgs);
+        displayVerification(verification);
+    }
+
+    return { filePath: iniPath, dryRun, ...applied, changes, missing: [], skipped, extensionConflicts: [], verification };
+}
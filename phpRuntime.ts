@@ -0,0 +1,209 @@
+import { spawnSync } from 'child_process';
+import { getModuleName } from './extensionCatalogue';
+import { extensionNameFromValue } from './iniDocument';
+
+export interface PhpRunResult {
+    stdout: string;
+    stderr: string;
+    output: string;             // stdout and stderr combined
+    exitCode: number | null;    // null when PHP could not be started or timed out
+}
+
+export type StartupIssueType = 'unable-to-load' | 'already-loaded' | 'parse-error' | 'fatal' | 'warning';
+
+/**
+ * A problem PHP reports while starting up (extension loading, ini parsing, ...)
+ */
+export interface StartupIssue {
+    type: StartupIssueType;
+    extension?: string;         // Affected extension, when the message names one
+    message: string;
+}
+
+export interface StartupCheck {
+    ok: boolean;
+    exitCode: number | null;
+    issues: StartupIssue[];
+}
+
+/**
+ * Runs the PHP binary and captures its output without throwing.
+ *
+ * @param phpExecutable - Path to the PHP executable.
+ * @param args - Command line arguments.
+ * @param env - Extra environment variables (e.g. PHP_INI_SCAN_DIR).
+ */
+export function runPhp(phpExecutable: string, args: string[], env: Record<string, string> = {}): PhpRunResult {
+    const result = spawnSync(phpExecutable, args, {
+        encoding: 'utf8',
+        timeout: 10000,
+        env: { ...process.env, ...env }
+    });
+
+    const stdout = result.stdout || '';
+    const stderr = result.stderr || '';
+
+    return {
+        stdout,
+        stderr,
+        output: `${stdout}${stderr ? `\n${stderr}` : ''}`,
+        exitCode: result.error ? null : result.status
+    };
+}
+
+/**
+ * Gets the version of a PHP binary (e.g. "8.3.12"), or an empty string when it cannot be run
+ */
+export function getPhpVersion(phpExecutable: string): string {
+    const result = runPhp(phpExecutable, ['-n', '-r', 'echo PHP_VERSION;']);
+    const match = result.stdout.match(/^\d+\.\d+\.\d+\S*/);
+    return result.exitCode === 0 && match ? match[0] : '';
+}
+
+/**
+ * Parses PHP startup errors from the output of `php -v` or `php -m`
+ */
+export function parseStartupErrors(output: string): StartupIssue[] {
+    const issues: StartupIssue[] = [];
+    const seen = new Set<string>();
+
+    for (const rawLine of output.split('\n')) {
+        const line = rawLine.trim();
+        // The same message is printed to stdout ("Warning: ...") and stderr ("PHP Warning: ...")
+        const key = line.replace(/^PHP\s+/, '');
+        if (!line || seen.has(key)) continue;
+
+        let issue: StartupIssue | null = null;
+        const unableMatch = line.match(/Unable to load dynamic library '([^']+)'/);
+        const duplicateMatch = line.match(/Module "([^"]+)" is already loaded/);
+
+        if (unableMatch) {
+            issue = { type: 'unable-to-load', extension: extensionNameFromValue(unableMatch[1]), message: line };
+        } else if (duplicateMatch) {
+            issue = { type: 'already-loaded', extension: duplicateMatch[1].toLowerCase(), message: line };
+        } else if (/(PHP )?Parse error|syntax error, unexpected/i.test(line)) {
+            issue = { type: 'parse-error', message: line };
+        } else if (/(PHP )?Fatal error/i.test(line)) {
+            issue = { type: 'fatal', message: line };
+        } else if (/^(PHP )?Warning:.*(in Unknown on line|PHP Startup)/i.test(line)) {
+            issue = { type: 'warning', message: line };
+        }
+
+        if (issue) {
+            issues.push(issue);
+            seen.add(key);
+        }
+    }
+
+    return issues;
+}
+
+/**
+ * Starts PHP with `-v` and `-m` and collects startup errors and the exit status.
+ *
+ * @param phpExecutable - Path to the PHP executable.
+ * @param iniArgs - Arguments selecting the configuration, e.g. ['-c', '/etc/php/8.3/fpm/php.ini'].
+ * @param env - Extra environment variables (e.g. PHP_INI_SCAN_DIR).
+ */
+export function checkPhpStartup(phpExecutable: string, iniArgs: string[] = [], env: Record<string, string> = {}): StartupCheck {
+    const version = runPhp(phpExecutable, [...iniArgs, '-v'], env);
+    const modules = runPhp(phpExecutable, [...iniArgs, '-m'], env);
+
+    const issues = parseStartupErrors(`${version.output}\n${modules.output}`);
+    const exitCode = version.exitCode !== 0 ? version.exitCode : modules.exitCode;
+
+    return {
+        ok: exitCode === 0 && issues.length === 0,
+        exitCode,
+        issues
+    };
+}
+
+/**
+ * Asks PHP which extensions are loaded (extension_loaded), using the given configuration.
+ *
+ * @returns Loaded state per extension; empty when PHP cannot be run.
+ */
+export function getExtensionsLoaded(
+    phpExecutable: string,
+    extensions: string[],
+    iniArgs: string[] = [],
+    env: Record<string, string> = {}
+): Record<string, boolean> {
+    // extension_loaded() wants the module name: 'Zend OPcache', not 'opcache'
+    const code = 'foreach (array_slice($argv, 1) as $i => $e) echo $i, "=", extension_loaded($e) ? 1 : 0, PHP_EOL;';
+    const result = runPhp(phpExecutable, [...iniArgs, '-r', code, '--', ...extensions.map(getModuleName)], env);
+    if (result.exitCode !== 0) return {};
+
+    const loaded: Record<string, boolean> = {};
+    for (const line of result.stdout.split('\n')) {
+        const match = line.trim().match(/^(\d+)=([01])$/);
+        if (match && extensions[Number(match[1])] !== undefined) loaded[extensions[Number(match[1])]] = match[2] === '1';
+    }
+    return loaded;
+}
+
+/**
+ * Asks PHP for the version of a loaded extension (phpversion), e.g. "3.3.2" for xdebug.
+ *
+ * @returns The version, or null when the extension is not loaded or PHP cannot be run.
+ */
+export function getExtensionVersion(
+    phpExecutable: string,
+    extension: string,
+    iniArgs: string[] = [],
+    env: Record<string, string> = {}
+): string | null {
+    const result = runPhp(phpExecutable, [...iniArgs, '-r', 'echo phpversion($argv[1]) ?: "";', '--', getModuleName(extension)], env);
+    const version = result.exitCode === 0 ? result.stdout.trim() : '';
+    return version || null;
+}
+
+/**
+ * An ini value as PHP reads it from a file and as the running configuration has it
+ */
+export interface EffectiveIniValue {
+    expected: string;           // The written value after PHP's ini parsing (On -> "1", E_ALL & ~E_NOTICE -> number)
+    effective: string | null;   // ini_get() result; null when PHP does not know the directive
+}
+
+/**
+ * Asks PHP for the effective value of directives (ini_get) and how it parses the values
+ * that were written for them, using the given configuration.
+ *
+ * @param phpExecutable - Path to the PHP executable.
+ * @param values - Directives and their values as written to the ini file.
+ * @param iniArgs - Arguments selecting the configuration, e.g. ['-c', '/etc/php/8.3/fpm/php.ini'].
+ * @param env - Extra environment variables (e.g. PHP_INI_SCAN_DIR).
+ * @returns Values per directive; empty when PHP cannot be run.
+ */
+export function getEffectiveIniValues(
+    phpExecutable: string,
+    values: Record<string, string>,
+    iniArgs: string[] = [],
+    env: Record<string, string> = {}
+): Record<string, EffectiveIniValue> {
+    // Values travel base64-encoded so quotes, spaces and newlines survive the round trip
+    const code = [
+        '$a = array_slice($argv, 1);',
+        'for ($i = 0; $i + 1 < count($a); $i += 2) {',
+        '  $p = @parse_ini_string("v=" . $a[$i + 1]);',
+        '  $v = ini_get($a[$i]);',
+        '  echo $a[$i], " ", base64_encode(is_array($p) && isset($p["v"]) ? $p["v"] : $a[$i + 1]), " ", $v === false ? "-" : base64_encode($v), PHP_EOL;',
+        '}'
+    ].join(' ');
+    const args = Object.entries(values).flatMap(([key, value]) => [key, value]);
+    const result = runPhp(phpExecutable, [...iniArgs, '-r', code, '--', ...args], env);
+    if (result.exitCode !== 0) return {};
+
+    const decode = (text: string): string => Buffer.from(text, 'base64').toString('utf8');
+    const effective: Record<string, EffectiveIniValue> = {};
+    for (const line of result.stdout.split('\n')) {
+        // Not trimmed: an empty value leaves a trailing space
+        const match = line.replace(/\r$/, '').match(/^(\S+) ([A-Za-z0-9+/=]*) (-|[A-Za-z0-9+/=]*)$/);
+        if (match && match[1] in values) {
+            effective[match[1]] = { expected: decode(match[2]), effective: match[3] === '-' ? null : decode(match[3]) };
+        }
+    }
+    return effective;
+}
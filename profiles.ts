@@ -0,0 +1,296 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { getPiaDataDir } from './phpEnvironmentUtils';
+
+/**
+ * A named set of extensions and php.ini settings. Profiles can extend another profile:
+ * settings are merged over the base, extension lists are added to the base and
+ * `excludeExtensions` removes extensions inherited from it. `disableExtensions` goes
+ * further and comments the extensions out of php.ini. `preferExtensions` decides which
+ * extension stays enabled when two conflict (xdebug or pcov).
+ */
+export interface ConfigProfile {
+    description?: string;
+    extends?: string;
+    essentialExtensions?: string[];
+    optionalExtensions?: string[];
+    excludeExtensions?: string[];
+    disableExtensions?: string[];       // Extensions to actively disable in php.ini
+    preferExtensions?: string[];        // Winners of extension conflicts, most preferred first
+    settings?: Record<string, string | number>;
+}
+
+/**
+ * A profile with its inheritance chain flattened
+ */
+export interface ResolvedProfile {
+    name: string;
+    description: string;
+    chain: string[];            // Profile names from the root base to this profile
+    framework?: string;         // Framework preset merged over the profile, e.g. 'symfony'
+    essentialExtensions: string[];
+    optionalExtensions: string[];
+    disableExtensions: string[];
+    preferExtensions: string[];
+    settings: Record<string, string | number>;
+}
+
+export const DEFAULT_PROFILE = 'development';
+
+// Essential Laravel extensions (Laravel 10+ requirements)
+const DEVELOPMENT_ESSENTIAL_EXTENSIONS: string[] = [
+    // Core Laravel requirements
+    'curl',           // HTTP client, API calls
+    'mbstring',       // String manipulation
+    'openssl',        // Encryption, HTTPS
+    'tokenizer',      // PHP tokenization
+    'xml',            // XML processing
+    'ctype',          // Character type checking
+    'json',           // JSON handling
+    'fileinfo',       // File type detection
+
+    // Database support
+    'pdo_mysql',      // MySQL PDO driver
+    'pdo_sqlite',     // SQLite PDO driver
+    'pdo_pgsql',      // PostgreSQL PDO driver
+    'mysqli',         // MySQL improved extension
+    'sqlite3',        // SQLite3 support
+
+    // Laravel features
+    'bcmath',         // Arbitrary precision mathematics
+    'gd',             // Image manipulation
+    'zip',            // Archive handling
+    'intl',           // Internationalization
+    'soap',           // SOAP protocol support
+    'xsl',            // XSL transformations
+    'ldap',           // LDAP directory access
+    'exif',           // Image metadata
+
+    // Performance & caching
+    'opcache',        // PHP opcode caching
+    'apcu'            // User cache
+];
+
+// Advanced Laravel extensions (optional but recommended)
+const DEVELOPMENT_OPTIONAL_EXTENSIONS: string[] = [
+    // Caching & performance
+    'redis',          // Redis cache driver
+    'memcached',      // Memcached support
+
+    // Image processing
+    'imagick',        // Advanced image manipulation
+    'gmagick',        // GraphicsMagick support
+
+    // Development & debugging
+    'xdebug',         // Debugging and profiling
+    'pcov',           // Code coverage
+
+    // Additional features
+    'imap',           // Email processing
+    'ftp',            // FTP support
+    'ssh2',           // SSH2 protocol
+    'mongodb',        // MongoDB driver
+    'amqp',           // RabbitMQ support
+    'swoole',         // High-performance async framework
+    'yaml'            // YAML parsing
+];
+
+// Laravel-optimized settings for maximum performance and compatibility
+const DEVELOPMENT_SETTINGS: Record<string, string | number> = {
+    // === PERFORMANCE SETTINGS ===
+    max_execution_time: 300,           // Extended for Artisan commands
+    memory_limit: '1G',                // Generous for Composer, migrations
+    max_input_vars: 5000,              // Large forms, complex data
+    max_input_time: 300,               // File uploads, data processing
+
+    // === FILE UPLOAD SETTINGS ===
+    post_max_size: '256M',             // Large file uploads
+    upload_max_filesize: '256M',       // Individual file size
+    max_file_uploads: 100,             // Multiple file uploads
+    file_uploads: 'On',                // Enable file uploads
+
+    // === OUTPUT & COMPRESSION ===
+    output_buffering: 8192,            // Optimized buffer size
+    'zlib.output_compression': 'On',   // Compress output
+    'zlib.output_compression_level': 6, // Balanced compression
+
+    // === ERROR HANDLING (Development) ===
+    error_reporting: 'E_ALL & ~E_DEPRECATED & ~E_STRICT',
+    display_errors: 'On',              // Show errors in development
+    display_startup_errors: 'On',      // Show startup errors
+    log_errors: 'On',                  // Log errors
+    log_errors_max_len: 8192,          // Error log length
+    ignore_repeated_errors: 'On',      // Avoid spam
+
+    // === SESSION SETTINGS ===
+    'session.gc_maxlifetime': 14400,   // 4 hours session lifetime
+    'session.cookie_lifetime': 0,      // Session cookies
+    'session.cookie_httponly': 'On',   // Security
+    'session.use_strict_mode': 'On',   // Security
+    'session.cookie_samesite': 'Lax',  // CSRF protection
+
+    // === OPCACHE OPTIMIZATION ===
+    'opcache.enable': 1,                    // Enable OPcache
+    'opcache.enable_cli': 1,                // Enable for CLI (Artisan)
+    'opcache.memory_consumption': 512,      // 512MB for OPcache
+    'opcache.interned_strings_buffer': 64,  // String optimization
+    'opcache.max_accelerated_files': 32531, // Max cached files
+    'opcache.revalidate_freq': 0,           // Always check in dev
+    'opcache.validate_timestamps': 1,       // Check file changes
+    'opcache.save_comments': 1,             // Keep docblocks
+    'opcache.fast_shutdown': 1,             // Faster shutdown
+
+    // === REALPATH CACHE ===
+    realpath_cache_size: '8M',         // Path resolution cache
+    realpath_cache_ttl: 7200,          // 2 hours TTL
+
+    // === SECURITY SETTINGS ===
+    expose_php: 'Off',                 // Hide PHP version
+    allow_url_fopen: 'On',             // Laravel needs this
+    allow_url_include: 'Off',          // Security
+
+    // === DATE/TIME ===
+    'date.timezone': 'UTC',            // Default timezone
+
+    // === MBSTRING SETTINGS ===
+    'mbstring.language': 'English',
+    'mbstring.internal_encoding': 'UTF-8',
+    'mbstring.http_output': 'UTF-8'
+};
+
+/**
+ * Built-in profiles. `development` carries the Laravel-optimized defaults, the others
+ * extend it with environment-specific error handling, caching and tooling.
+ */
+export const BUILT_IN_PROFILES: Record<string, ConfigProfile> = {
+    development: {
+        description: 'Laravel development: verbose errors, timestamp validation, debugging tools',
+        essentialExtensions: DEVELOPMENT_ESSENTIAL_EXTENSIONS,
+        optionalExtensions: DEVELOPMENT_OPTIONAL_EXTENSIONS,
+        preferExtensions: ['xdebug', 'imagick'],
+        settings: DEVELOPMENT_SETTINGS
+    },
+    production: {
+        description: 'Production servers: errors logged not displayed, OPcache without revalidation, no debuggers',
+        extends: 'development',
+        // Commented out, not just left out, so a box set up for development is cleaned up
+        disableExtensions: ['xdebug', 'pcov'],
+        settings: {
+            max_execution_time: 60,
+            memory_limit: '512M',
+            display_errors: 'Off',
+            display_startup_errors: 'Off',
+            log_errors: 'On',
+            html_errors: 'Off',
+            'zend.assertions': -1,
+            'session.cookie_secure': 'On',
+            'opcache.enable_cli': 0,
+            'opcache.validate_timestamps': 0,
+            'opcache.revalidate_freq': 60
+        }
+    },
+    testing: {
+        description: 'Local test runs: assertions enabled, pcov for coverage instead of Xdebug',
+        extends: 'development',
+        excludeExtensions: ['xdebug'],
+        preferExtensions: ['pcov'],
+        settings: {
+            memory_limit: '2G',
+            'zend.assertions': 1,
+            'opcache.enable_cli': 0
+        }
+    },
+    ci: {
+        description: 'CI pipelines: no time or memory limits, plain-text errors on stderr',
+        extends: 'testing',
+        settings: {
+            max_execution_time: 0,
+            memory_limit: -1,
+            display_errors: 'stderr',
+            html_errors: 'Off',
+            'opcache.enable': 0
+        }
+    }
+};
+
+/**
+ * Loads user-defined profiles from profiles.json in the data directory
+ */
+export function loadUserProfiles(): Record<string, ConfigProfile> {
+    const profilesPath = path.join(getPiaDataDir(), 'profiles.json');
+    if (!fs.existsSync(profilesPath)) return {};
+
+    try {
+        const profiles = fs.readJsonSync(profilesPath);
+        return profiles && typeof profiles === 'object' ? profiles : {};
+    } catch (error: any) {
+        throw new Error(`Invalid profiles file ${profilesPath}: ${error.message}`);
+    }
+}
+
+/**
+ * Lists all available profiles (user-defined profiles override built-ins of the same name)
+ */
+export function listProfiles(extraProfiles: Record<string, ConfigProfile> = {}): Record<string, ConfigProfile> {
+    return { ...BUILT_IN_PROFILES, ...loadUserProfiles(), ...extraProfiles };
+}
+
+/**
+ * Resolves a profile by name, flattening its `extends` chain.
+ *
+ * @param name - Profile name, e.g. 'production'.
+ * @param extraProfiles - Additional profiles (e.g. from a project configuration file).
+ * @throws If the profile or one of its bases does not exist, or the chain is circular.
+ */
+export function resolveProfile(name: string = DEFAULT_PROFILE, extraProfiles: Record<string, ConfigProfile> = {}): ResolvedProfile {
+    const profiles = listProfiles(extraProfiles);
+
+    // Walk up to the root base
+    const chain: string[] = [];
+    let current: string | undefined = name;
+    while (current) {
+        if (chain.includes(current)) {
+            throw new Error(`Circular profile inheritance: ${[...chain].reverse().join(' -> ')} -> ${current}`);
+        }
+        if (!profiles[current]) {
+            const available = Object.keys(profiles).join(', ');
+            throw new Error(chain.length === 0 ?
+                `Unknown profile "${current}". Available profiles: ${available}` :
+                `Profile "${chain[0]}" extends unknown profile "${current}"`);
+        }
+        chain.unshift(current);
+        current = profiles[current].extends;
+    }
+
+    const resolved: ResolvedProfile = {
+        name,
+        description: profiles[name].description || '',
+        chain,
+        essentialExtensions: [],
+        optionalExtensions: [],
+        disableExtensions: [],
+        preferExtensions: [],
+        settings: {}
+    };
+
+    for (const profileName of chain) {
+        const profile = profiles[profileName];
+        const excluded = profile.excludeExtensions || [];
+        const addUnique = (list: string[], extensions: string[] = []) =>
+            [...list, ...extensions.filter(ext => !list.includes(ext))].filter(ext => !excluded.includes(ext));
+
+        resolved.essentialExtensions = addUnique(resolved.essentialExtensions, profile.essentialExtensions);
+        resolved.optionalExtensions = addUnique(resolved.optionalExtensions, profile.optionalExtensions)
+            .filter(ext => !resolved.essentialExtensions.includes(ext));
+        resolved.disableExtensions = [...resolved.disableExtensions, ...(profile.disableExtensions || [])]
+            .filter((ext, index, list) => list.indexOf(ext) === index)
+            .filter(ext => !(profile.essentialExtensions || []).includes(ext) && !(profile.optionalExtensions || []).includes(ext));
+        resolved.essentialExtensions = resolved.essentialExtensions.filter(ext => !resolved.disableExtensions.includes(ext));
+        resolved.optionalExtensions = resolved.optionalExtensions.filter(ext => !resolved.disableExtensions.includes(ext));
+        // Preferences of the more specific profile come first
+        resolved.preferExtensions = [...(profile.preferExtensions || []), ...resolved.preferExtensions.filter(ext => !(profile.preferExtensions || []).includes(ext))];
+        resolved.settings = { ...resolved.settings, ...profile.settings };
+    }
+
+    return resolved;
+}
@@ -0,0 +1,138 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { ComposerMode } from './composerRequirements';
+import { CONFIG_MODES, ConfigMode } from './dropInConfig';
+import { ConfigProfile, ResolvedProfile } from './profiles';
+
+/**
+ * PHP configuration committed to a project repository (pia.config.json or .piarc)
+ */
+export interface ProjectConfig {
+    profile?: string;                   // Base profile, e.g. 'production'
+    framework?: string;                 // Framework preset ('none' disables detection)
+    php?: string;                       // PHP version constraint, e.g. "^8.2" or ">=8.1 <8.4"
+    extensions?: string[];              // Extensions the project requires
+    disableExtensions?: string[];       // Extensions to disable
+    settings?: Record<string, string | number>;
+    composer?: ComposerMode;            // Derive required extensions from composer.json/composer.lock
+    mode?: ConfigMode;                  // 'inplace' or 'drop-in'
+    profiles?: Record<string, ConfigProfile>;   // Project-specific profiles
+}
+
+export interface LoadedProjectConfig {
+    path: string;
+    config: ProjectConfig;
+}
+
+// Checked in this order in every directory
+export const PROJECT_CONFIG_FILES = ['pia.config.json', '.piarc'];
+
+/**
+ * Validates the shape of a project configuration
+ *
+ * @throws If a field has the wrong type.
+ */
+function validateProjectConfig(value: unknown, configPath: string): ProjectConfig {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        throw new Error(`${configPath}: expected a JSON object`);
+    }
+
+    const config = value as Record<string, unknown>;
+    const isObject = (field: unknown): field is Record<string, unknown> =>
+        !!field && typeof field === 'object' && !Array.isArray(field);
+    const isStringList = (field: unknown): field is string[] =>
+        Array.isArray(field) && field.every(item => typeof item === 'string');
+
+    for (const key of ['profile', 'framework', 'php']) {
+        if (config[key] !== undefined && typeof config[key] !== 'string') {
+            throw new Error(`${configPath}: "${key}" must be a string`);
+        }
+    }
+    for (const key of ['extensions', 'disableExtensions']) {
+        if (config[key] !== undefined && !isStringList(config[key])) {
+            throw new Error(`${configPath}: "${key}" must be a list of extension names`);
+        }
+    }
+    if (config.settings !== undefined) {
+        if (!isObject(config.settings)) {
+            throw new Error(`${configPath}: "settings" must be an object of php.ini directives`);
+        }
+        for (const [key, setting] of Object.entries(config.settings)) {
+            if (typeof setting !== 'string' && typeof setting !== 'number') {
+                throw new Error(`${configPath}: setting "${key}" must be a string or a number`);
+            }
+        }
+    }
+    if (config.composer !== undefined && config.composer !== 'augment' && config.composer !== 'replace') {
+        throw new Error(`${configPath}: "composer" must be "augment" or "replace"`);
+    }
+    if (config.mode !== undefined && !CONFIG_MODES.some(mode => mode === config.mode)) {
+        throw new Error(`${configPath}: "mode" must be ${CONFIG_MODES.map(mode => `"${mode}"`).join(' or ')}`);
+    }
+    if (config.profiles !== undefined && !isObject(config.profiles)) {
+        throw new Error(`${configPath}: "profiles" must be an object of profile definitions`);
+    }
+
+    // Every field has been checked above
+    return config as ProjectConfig;
+}
+
+/**
+ * Loads a project configuration file
+ *
+ * @throws If the file is not valid JSON or has an invalid shape.
+ */
+export function loadProjectConfig(configPath: string): LoadedProjectConfig {
+    let config: unknown;
+    try {
+        config = JSON.parse(fs.readFileSync(configPath, 'utf8'));
+    } catch (error: any) {
+        throw new Error(`Invalid project configuration ${configPath}: ${error.message}`);
+    }
+
+    return { path: configPath, config: validateProjectConfig(config, configPath) };
+}
+
+/**
+ * Finds the project configuration by walking up from a directory to the filesystem root.
+ *
+ * @param startDir - Directory to start from (defaults to the current working directory).
+ * @returns The nearest configuration, or null when there is none.
+ */
+export function findProjectConfig(startDir: string = process.cwd()): LoadedProjectConfig | null {
+    let dir = path.resolve(startDir);
+
+    while (true) {
+        for (const fileName of PROJECT_CONFIG_FILES) {
+            const candidate = path.join(dir, fileName);
+            if (fs.existsSync(candidate) && fs.statSync(candidate).isFile()) {
+                return loadProjectConfig(candidate);
+            }
+        }
+
+        const parent = path.dirname(dir);
+        if (parent === dir) return null;
+        dir = parent;
+    }
+}
+
+/**
+ * Merges the extension lists of a project configuration over a resolved profile: required
+ * extensions become essential and disabled extensions are removed from the lists. The
+ * project settings are passed to `customizePhpIni` as custom settings.
+ */
+export function applyProjectConfig(profile: ResolvedProfile, config: ProjectConfig): ResolvedProfile {
+    const disabled = config.disableExtensions || [];
+    const required = (config.extensions || []).filter(ext => !disabled.includes(ext));
+
+    const essentialExtensions = [...profile.essentialExtensions, ...required.filter(ext => !profile.essentialExtensions.includes(ext))];
+
+    return {
+        ...profile,
+        essentialExtensions: essentialExtensions.filter(ext => !disabled.includes(ext)),
+        optionalExtensions: profile.optionalExtensions.filter(ext => !disabled.includes(ext) && !essentialExtensions.includes(ext)),
+        disableExtensions: [...profile.disableExtensions.filter(ext => !required.includes(ext)), ...disabled.filter(ext => !profile.disableExtensions.includes(ext))],
+        // Extensions the project requires win conflicts over the profile's preferences
+        preferExtensions: [...required, ...profile.preferExtensions.filter(ext => !required.includes(ext))]
+    };
+}
@@ -2,12 +2,12 @@
 
 // Simple test to verify the package exports work correctly
 
-import { 
+const { 
     updatePhpIni, 
     customizePhpIni, 
     determinePhpIniPaths, 
     validateSourceFile 
-} from './dist/index.js';
+} = require('./dist/index.js');
 
 console.log('🧪 Testing PHP INI Automation Package\n');
 
@@ -0,0 +1,97 @@
+// Install planning and execution with a fake package manager (run `npm run build` first)
+
+const assert = require('node:assert/strict');
+const { describe, it } = require('node:test');
+const { executeInstallPlan, planExtensionInstall } = require('../dist/extensionInstaller.js');
+
+/**
+ * A package manager that names packages php<version>-<extension> (or -mysql for the MySQL
+ * extensions, which share a package) and treats `installed` as installed
+ */
+function fakeManager(installed = []) {
+    return {
+        name: 'apt',
+        label: 'Fake',
+        packageNames(extension, phpVersion) {
+            const name = ['mysqli', 'pdo_mysql', 'mysqlnd'].includes(extension) ? 'mysql' : extension;
+            return [`php${phpVersion}-${name}`, `php-${name}`];
+        },
+        isInstalled(packageName, run) {
+            return run('query', [packageName]).exitCode === 0 && installed.includes(packageName);
+        },
+        installCommand(packageNames) {
+            return ['install', ...packageNames];
+        }
+    };
+}
+
+const run = () => ({ stdout: '', exitCode: 0 });
+
+describe('planExtensionInstall', () => {
+    it('separates installed packages from missing ones', () => {
+        const plan = planExtensionInstall(['redis', 'intl', 'gd'], '8.3', { manager: fakeManager(['php8.3-intl', 'php-gd']), run });
+
+        assert.deepEqual(plan.installed, [
+            { extension: 'intl', packageName: 'php8.3-intl' },
+            { extension: 'gd', packageName: 'php-gd' }
+        ]);
+        assert.deepEqual(plan.toInstall, [{ extension: 'redis', packageName: 'php8.3-redis' }]);
+        assert.deepEqual(plan.commands, [['install', 'php8.3-redis']]);
+    });
+
+    it('installs a package shared by several extensions once', () => {
+        const plan = planExtensionInstall(['pdo_mysql', 'mysqli', 'redis'], '8.2', { manager: fakeManager(), run });
+
+        assert.deepEqual(plan.toInstall.map(assignment => assignment.packageName), ['php8.2-mysql', 'php8.2-mysql', 'php8.2-redis']);
+        assert.deepEqual(plan.commands, [['install', 'php8.2-mysql', 'php8.2-redis']]);
+    });
+
+    it('has no commands when everything is installed', () => {
+        const plan = planExtensionInstall(['redis'], '8.3', { manager: fakeManager(['php8.3-redis']), run });
+
+        assert.equal(plan.toInstall.length, 0);
+        assert.deepEqual(plan.commands, []);
+    });
+
+    it('returns an empty plan without a package manager', () => {
+        const plan = planExtensionInstall(['redis', 'intl'], '8.3', { manager: null, run });
+
+        assert.deepEqual(plan, { manager: null, phpVersion: '8.3', installed: [], toInstall: [], commands: [] });
+    });
+});
+
+describe('executeInstallPlan', () => {
+    const planWith = commands => ({ manager: fakeManager(), phpVersion: '8.3', installed: [], toInstall: [], commands });
+
+    it('runs every command and reports the last one', () => {
+        const executed = [];
+        const result = executeInstallPlan(planWith([['install', 'a'], ['install', 'b']]), {
+            execute: command => { executed.push(command); return 0; }
+        });
+
+        assert.deepEqual(executed, [['install', 'a'], ['install', 'b']]);
+        assert.deepEqual(result, { success: true, exitCode: 0, command: ['install', 'b'] });
+    });
+
+    it('stops at the first failed command', () => {
+        const executed = [];
+        const result = executeInstallPlan(planWith([['install', 'a'], ['install', 'b']]), {
+            execute: command => { executed.push(command); return 100; }
+        });
+
+        assert.deepEqual(executed, [['install', 'a']]);
+        assert.deepEqual(result, { success: false, exitCode: 100, command: ['install', 'a'] });
+    });
+
+    it('fails when a command cannot be started', () => {
+        const result = executeInstallPlan(planWith([['install', 'a']]), { execute: () => null });
+
+        assert.deepEqual(result, { success: false, exitCode: null, command: ['install', 'a'] });
+    });
+
+    it('succeeds without running anything for an empty plan', () => {
+        const result = executeInstallPlan(planWith([]), { execute: () => assert.fail('nothing should run') });
+
+        assert.deepEqual(result, { success: true, exitCode: 0, command: [] });
+    });
+});
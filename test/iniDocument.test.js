@@ -0,0 +1,172 @@
+// Lossless round trip and section-aware edits of the php.ini document model (run `npm run build` first)
+
+const assert = require('node:assert/strict');
+const fs = require('node:fs');
+const path = require('node:path');
+const { describe, it } = require('node:test');
+const {
+    disableExtension,
+    findDirectiveLines,
+    findExtensionLines,
+    findSectionRange,
+    getEnabledExtensions,
+    isExtensionEnabled,
+    parseIniDocument,
+    serializeIniDocument,
+    setDirective
+} = require('../dist/iniDocument.js');
+
+// Excerpt of the stock php.ini-development shipped with PHP 8.3
+const STOCK = fs.readFileSync(path.join(__dirname, 'fixtures', 'php.ini-development'), 'utf8');
+
+const roundTrip = content => serializeIniDocument(parseIniDocument(content));
+
+/**
+ * Returns the lines of `after` that differ from `before` (both split on \n)
+ */
+function changedLines(before, after) {
+    const old = new Set(before.split('\n'));
+    return after.split('\n').filter(line => !old.has(line));
+}
+
+describe('round trip', () => {
+    it('reproduces the stock php.ini-development byte for byte', () => {
+        assert.equal(roundTrip(STOCK), STOCK);
+    });
+
+    it('keeps CRLF line endings', () => {
+        const crlf = STOCK.replace(/\n/g, '\r\n');
+        assert.equal(roundTrip(crlf), crlf);
+    });
+
+    it('keeps mixed line endings and a missing final newline', () => {
+        const content = '[PHP]\r\nmemory_limit = 128M\nmax_execution_time=30';
+        assert.equal(roundTrip(content), content);
+    });
+
+    it('keeps a byte order mark', () => {
+        const content = '\uFEFF[PHP]\nmemory_limit = 128M\n';
+        assert.equal(roundTrip(content), content);
+    });
+
+    it('keeps quoting, inline comments, odd spacing and array keys', () => {
+        const content = [
+            '[PHP]',
+            'include_path = ".:/usr/share/php" ; Unix',
+            'error_log="C:\\\\php\\\\errors.log"',
+            '  display_errors=Off   ;indented',
+            'extension[] = redis',
+            'extension[]=igbinary.so',
+            'opcache.blacklist_filename[0] = "/etc/opcache-*.txt"',
+            ';   extension=mysqli',
+            '\t; tabbed comment',
+            ''
+        ].join('\n');
+        assert.equal(roundTrip(content), content);
+    });
+
+    it('reproduces empty and whitespace-only files', () => {
+        for (const content of ['', '\n', '   ', '\r\n\r\n']) {
+            assert.equal(roundTrip(content), content);
+        }
+    });
+});
+
+describe('setDirective', () => {
+    it('updates the active line in place', () => {
+        const doc = parseIniDocument(STOCK);
+        assert.equal(setDirective(doc, 'memory_limit', '512M'), 'updated');
+
+        const updated = serializeIniDocument(doc);
+        assert.deepEqual(changedLines(STOCK, updated), ['memory_limit = 512M']);
+    });
+
+    it('leaves the file untouched when the value is already set', () => {
+        const doc = parseIniDocument(STOCK);
+        assert.equal(setDirective(doc, 'memory_limit', '128M'), 'unchanged');
+        assert.equal(serializeIniDocument(doc), STOCK);
+    });
+
+    it('uncomments the stock line in the owning section', () => {
+        const doc = parseIniDocument(STOCK);
+        assert.equal(setDirective(doc, 'date.timezone', 'UTC'), 'updated');
+        assert.equal(setDirective(doc, 'opcache.enable', 1), 'updated');
+
+        const updated = serializeIniDocument(doc);
+        assert.deepEqual(changedLines(STOCK, updated), ['date.timezone = UTC', 'opcache.enable=1']);
+        const [timezone] = findDirectiveLines(doc, 'date.timezone');
+        assert.equal(doc.lines[timezone].section, 'Date');
+        const [opcache] = findDirectiveLines(doc, 'opcache.enable');
+        assert.equal(doc.lines[opcache].section, 'opcache');
+    });
+
+    it('creates a missing section', () => {
+        const doc = parseIniDocument(STOCK);
+        assert.equal(findSectionRange(doc, 'intl'), null);
+        assert.equal(setDirective(doc, 'intl.default_locale', 'en_US'), 'added');
+
+        const range = findSectionRange(doc, 'intl');
+        assert.ok(range);
+        const [index] = findDirectiveLines(doc, 'intl.default_locale');
+        assert.ok(index > range.start && index < range.end);
+        assert.equal(doc.lines[index].raw, 'intl.default_locale = en_US');
+        // Only new lines were added; every existing line is still there
+        const updated = serializeIniDocument(doc);
+        assert.ok(STOCK.split('\n').every(line => updated.split('\n').includes(line)));
+    });
+
+    it('skips a commented example in the wrong section', () => {
+        const content = [
+            '[PHP]',
+            '; Example:',
+            ';session.save_path = "/tmp"',
+            '',
+            '[Session]',
+            'session.save_handler = files',
+            ''
+        ].join('\n');
+        const doc = parseIniDocument(content);
+        assert.equal(setDirective(doc, 'session.save_path', '/var/lib/php/sessions'), 'added');
+
+        const updated = serializeIniDocument(doc);
+        assert.ok(updated.includes(';session.save_path = "/tmp"'));
+        const active = findDirectiveLines(doc, 'session.save_path');
+        assert.equal(active.length, 1);
+        assert.equal(doc.lines[active[0]].section, 'Session');
+    });
+
+    it('adds new lines with the file\'s line ending and keeps a missing final newline missing', () => {
+        const doc = parseIniDocument('[PHP]\r\nmemory_limit = 128M');
+        setDirective(doc, 'max_execution_time', 60);
+        assert.equal(serializeIniDocument(doc), '[PHP]\r\nmemory_limit = 128M\r\nmax_execution_time = 60');
+    });
+});
+
+describe('extension lines', () => {
+    const content = [
+        '[PHP]',
+        'extension=intl',
+        ';extension=curl',
+        '',
+        '[HOST=example.com]',
+        'extension=redis',
+        '',
+        '[PATH=/var/www/legacy]',
+        'extension=mysqli',
+        ''
+    ].join('\n');
+
+    it('only treats lines outside [HOST=] and [PATH=] sections as global', () => {
+        const doc = parseIniDocument(content);
+        assert.equal(isExtensionEnabled(doc, 'intl'), true);
+        assert.equal(isExtensionEnabled(doc, 'redis'), false);
+        assert.deepEqual(findExtensionLines(doc, 'mysqli', true), []);
+        assert.deepEqual(getEnabledExtensions(doc), ['intl']);
+    });
+
+    it('does not comment out scoped extension lines', () => {
+        const doc = parseIniDocument(content);
+        assert.equal(disableExtension(doc, 'redis'), 0);
+        assert.equal(serializeIniDocument(doc), content);
+    });
+});
@@ -0,0 +1,172 @@
+// Package-manager backend against stubbed command output (run `npm run build` first)
+
+const assert = require('node:assert/strict');
+const { describe, it } = require('node:test');
+const { detectPackageManager, findInstalledExtensionPackage, getInstallCommand, PACKAGE_MANAGERS } = require('../dist/packageManagers.js');
+
+const { apt, dnf, apk, pacman, brew } = PACKAGE_MANAGERS;
+
+/**
+ * Stubs a command runner: `outputs` maps "command arg..." to its result, anything else exits 1
+ */
+function stubRunner(outputs) {
+    const calls = [];
+    const run = (command, args) => {
+        const line = [command, ...args].join(' ');
+        calls.push(line);
+        return outputs[line] || { stdout: '', exitCode: 1 };
+    };
+    return { run, calls };
+}
+
+const OS_RELEASE = {
+    ubuntu: 'NAME="Ubuntu"\nVERSION_ID="24.04"\nID=ubuntu\nID_LIKE=debian\n',
+    debian: 'PRETTY_NAME="Debian GNU/Linux 12 (bookworm)"\nID=debian\n',
+    fedora: 'NAME="Fedora Linux"\nID=fedora\nVERSION_ID=40\n',
+    rocky: 'NAME="Rocky Linux"\nID="rocky"\nID_LIKE="rhel centos fedora"\n',
+    alpine: 'NAME="Alpine Linux"\nID=alpine\nVERSION_ID=3.20.0\n',
+    arch: 'NAME="Arch Linux"\nID=arch\n',
+    manjaroLike: 'NAME="Custom"\nID=custom\nID_LIKE=arch\n',
+    unknown: 'NAME="Exotic"\nID=exotic\n'
+};
+
+describe('packageNames', () => {
+    it('apt uses versioned packages with the distro default as fallback', () => {
+        assert.deepEqual(apt.packageNames('redis', '8.3'), ['php8.3-redis', 'php-redis']);
+        assert.deepEqual(apt.packageNames('intl', '8.1.27'), ['php8.1-intl', 'php-intl']);
+        assert.deepEqual(apt.packageNames('pdo_mysql', '7.4'), ['php7.4-mysql', 'php-mysql']);
+        assert.deepEqual(apt.packageNames('redis', ''), ['php-redis']);
+    });
+
+    it('dnf prefers pecl packages and adds Remi collection names', () => {
+        assert.deepEqual(dnf.packageNames('redis', '8.3'), ['php-pecl-redis', 'php-redis', 'php83-php-pecl-redis', 'php83-php-redis']);
+        assert.deepEqual(dnf.packageNames('intl', '8.2'), ['php-intl', 'php82-php-intl']);
+        assert.deepEqual(dnf.packageNames('curl', '8.1'), ['php-common', 'php81-php-common']);
+    });
+
+    it('apk uses compact and major-version prefixes', () => {
+        assert.deepEqual(apk.packageNames('redis', '8.3'), ['php83-pecl-redis', 'php83-redis', 'php8-pecl-redis', 'php8-redis']);
+        assert.deepEqual(apk.packageNames('intl', '8.2'), ['php82-intl', 'php8-intl']);
+        assert.deepEqual(apk.packageNames('intl', '7.4'), ['php74-intl', 'php7-intl']);
+    });
+
+    it('pacman ships bundled extensions with php and others in their own package', () => {
+        assert.deepEqual(pacman.packageNames('redis', '8.3'), ['php-redis', 'php83-redis']);
+        assert.deepEqual(pacman.packageNames('gd', '8.2'), ['php-gd', 'php82-gd']);
+        assert.deepEqual(pacman.packageNames('mbstring', '8.3'), ['php', 'php83']);
+    });
+
+    it('brew uses the shivammathur/extensions tap for PECL extensions', () => {
+        assert.deepEqual(brew.packageNames('redis', '8.3'), ['shivammathur/extensions/redis@8.3']);
+        assert.deepEqual(brew.packageNames('xdebug', '8.1'), ['shivammathur/extensions/xdebug@8.1']);
+        assert.deepEqual(brew.packageNames('intl', '8.2'), ['php@8.2', 'php']);
+    });
+
+    it('treats extensions removed from core as PECL packages on newer versions', () => {
+        assert.deepEqual(dnf.packageNames('imap', '8.3'), ['php-imap', 'php83-php-imap']);
+        assert.deepEqual(dnf.packageNames('imap', '8.4'), ['php-pecl-imap', 'php-imap', 'php84-php-pecl-imap', 'php84-php-imap']);
+        assert.deepEqual(brew.packageNames('imap', '8.4'), ['shivammathur/extensions/imap@8.4']);
+    });
+});
+
+describe('isInstalled', () => {
+    it('apt requires the dpkg status "install ok installed"', () => {
+        const { run } = stubRunner({
+            'dpkg-query -W --showformat=${Status} php8.3-redis': { stdout: 'install ok installed', exitCode: 0 },
+            'dpkg-query -W --showformat=${Status} php8.3-intl': { stdout: 'deinstall ok config-files', exitCode: 0 },
+            'dpkg-query -W --showformat=${Status} php8.3-gd': { stdout: 'install ok half-installed', exitCode: 0 }
+        });
+        assert.equal(apt.isInstalled('php8.3-redis', run), true);
+        assert.equal(apt.isInstalled('php8.3-intl', run), false);
+        assert.equal(apt.isInstalled('php8.3-gd', run), false);
+        assert.equal(apt.isInstalled('php8.3-zip', run), false);
+    });
+
+    it('dnf, apk and pacman use the exit status of their query', () => {
+        const { run, calls } = stubRunner({
+            'rpm -q php-pecl-redis': { stdout: 'php-pecl-redis-6.0.2-1.fc40.x86_64\n', exitCode: 0 },
+            'apk info -e php83-intl': { stdout: 'php83-intl\n', exitCode: 0 },
+            'pacman -Q php-gd': { stdout: 'php-gd 8.3.9-1\n', exitCode: 0 }
+        });
+        assert.equal(dnf.isInstalled('php-pecl-redis', run), true);
+        assert.equal(dnf.isInstalled('php-redis', run), false);
+        assert.equal(apk.isInstalled('php83-intl', run), true);
+        assert.equal(apk.isInstalled('php83-zip', run), false);
+        assert.equal(pacman.isInstalled('php-gd', run), true);
+        assert.equal(pacman.isInstalled('php-redis', run), false);
+        assert.deepEqual(calls, [
+            'rpm -q php-pecl-redis',
+            'rpm -q php-redis',
+            'apk info -e php83-intl',
+            'apk info -e php83-zip',
+            'pacman -Q php-gd',
+            'pacman -Q php-redis'
+        ]);
+    });
+
+    it('brew needs a listed version', () => {
+        const { run } = stubRunner({
+            'brew list --versions shivammathur/extensions/redis@8.3': { stdout: 'redis@8.3 6.0.2\n', exitCode: 0 },
+            'brew list --versions php@8.2': { stdout: '', exitCode: 0 }
+        });
+        assert.equal(brew.isInstalled('shivammathur/extensions/redis@8.3', run), true);
+        assert.equal(brew.isInstalled('php@8.2', run), false);
+        assert.equal(brew.isInstalled('php@8.1', run), false);
+    });
+
+    it('treats a command that could not be started as not installed', () => {
+        const run = () => ({ stdout: '', exitCode: null });
+        assert.equal(apt.isInstalled('php8.3-redis', run), false);
+        assert.equal(dnf.isInstalled('php-redis', run), false);
+    });
+
+    it('findInstalledExtensionPackage returns the first installed candidate', () => {
+        const { run } = stubRunner({ 'rpm -q php83-php-pecl-redis': { stdout: '', exitCode: 0 } });
+        assert.equal(findInstalledExtensionPackage(dnf, 'redis', '8.3', run), 'php83-php-pecl-redis');
+        assert.equal(findInstalledExtensionPackage(dnf, 'intl', '8.3', run), null);
+    });
+});
+
+describe('getInstallCommand', () => {
+    it('installs the most specific package once per package', () => {
+        assert.equal(getInstallCommand(apt, ['pdo_mysql', 'mysqli', 'redis'], '8.3'), 'sudo apt install -y php8.3-mysql php8.3-redis');
+        assert.equal(getInstallCommand(brew, ['redis'], '8.3'), 'brew install shivammathur/extensions/redis@8.3');
+    });
+});
+
+describe('detectPackageManager', () => {
+    it('recognises distributions from ID', () => {
+        assert.equal(detectPackageManager(OS_RELEASE.debian, {}, 'linux').name, 'apt');
+        assert.equal(detectPackageManager(OS_RELEASE.fedora, {}, 'linux').name, 'dnf');
+        assert.equal(detectPackageManager(OS_RELEASE.alpine, {}, 'linux').name, 'apk');
+        assert.equal(detectPackageManager(OS_RELEASE.arch, {}, 'linux').name, 'pacman');
+    });
+
+    it('falls back to ID_LIKE', () => {
+        assert.equal(detectPackageManager(OS_RELEASE.ubuntu, {}, 'linux').name, 'apt');
+        assert.equal(detectPackageManager(OS_RELEASE.rocky, {}, 'linux').name, 'dnf');
+        assert.equal(detectPackageManager(OS_RELEASE.manjaroLike, {}, 'linux').name, 'pacman');
+    });
+
+    it('returns null for unknown distributions and platforms', () => {
+        assert.equal(detectPackageManager(OS_RELEASE.unknown, {}, 'linux'), null);
+        assert.equal(detectPackageManager('', {}, 'linux'), null);
+        assert.equal(detectPackageManager(undefined, {}, 'win32'), null);
+    });
+
+    it('uses Homebrew on macOS', () => {
+        assert.equal(detectPackageManager(undefined, {}, 'darwin').name, 'brew');
+    });
+
+    it('lets PIA_PACKAGE_MANAGER override the detection', () => {
+        assert.equal(detectPackageManager(OS_RELEASE.ubuntu, { PIA_PACKAGE_MANAGER: 'apk' }, 'linux').name, 'apk');
+        assert.equal(detectPackageManager(undefined, { PIA_PACKAGE_MANAGER: ' DNF ' }, 'darwin').name, 'dnf');
+    });
+
+    it('rejects an unknown PIA_PACKAGE_MANAGER', () => {
+        assert.throws(
+            () => detectPackageManager(OS_RELEASE.ubuntu, { PIA_PACKAGE_MANAGER: 'yum' }, 'linux'),
+            /Unknown PIA_PACKAGE_MANAGER "yum"\. Available package managers: apt, dnf, apk, pacman, brew/
+        );
+    });
+});
@@ -0,0 +1,109 @@
+// PECL builds with a stubbed build runner (run `npm run build` first)
+
+const assert = require('node:assert/strict');
+const fs = require('node:fs');
+const os = require('node:os');
+const path = require('node:path');
+const { afterEach, beforeEach, describe, it } = require('node:test');
+const { buildPeclExtension } = require('../dist/peclBuilder.js');
+
+/**
+ * A Debian-style tree: /etc/php/8.3/{cli/php.ini,cli/conf.d,mods-available}, a bin directory
+ * with phpize8.3/php-config8.3, an extension_dir and a source directory with <ext>-1.0.0
+ */
+function createTree(root, { debian = true } = {}) {
+    const versionDir = path.join(root, 'etc', 'php', '8.3');
+    const iniPath = path.join(versionDir, 'cli', 'php.ini');
+    fs.mkdirSync(path.join(versionDir, 'cli', 'conf.d'), { recursive: true });
+    if (debian) fs.mkdirSync(path.join(versionDir, 'mods-available'));
+    fs.writeFileSync(iniPath, '[PHP]\n');
+
+    const binDir = path.join(root, 'bin');
+    fs.mkdirSync(binDir);
+    for (const tool of ['php', 'phpize8.3', 'php-config8.3']) fs.writeFileSync(path.join(binDir, tool), '');
+
+    const extensionDir = path.join(root, 'ext');
+    fs.mkdirSync(extensionDir);
+    const sourceDir = path.join(root, 'src');
+    for (const ext of ['redis', 'xdebug', 'memcached']) fs.mkdirSync(path.join(sourceDir, `${ext}-1.0.0`), { recursive: true });
+
+    return {
+        installation: {
+            version: '8.3.1', path: binDir, iniPath, extensionDir, environment: 'Test',
+            phpExecutable: path.join(binDir, 'php'), isActive: true, priority: 1
+        },
+        modsDir: path.join(versionDir, 'mods-available'),
+        sourceDir
+    };
+}
+
+/**
+ * Answers the ABI probes for API 20230831 NTS and lets `make` produce modules/<ext>.so
+ */
+function stubRunner(extension) {
+    return (command, args, cwd) => {
+        const ok = stdout => ({ stdout, stderr: '', exitCode: 0 });
+        if (args.includes('-i')) return ok('PHP Extension Build => API20230831,NTS');
+        if (args[0] === '--extension-dir') return ok('/usr/lib/php/20230831');
+        if (args[0] === '--phpapi') return ok('20230831');
+        if (command === 'make') {
+            fs.mkdirSync(path.join(cwd, 'modules'));
+            fs.writeFileSync(path.join(cwd, 'modules', `${extension}.so`), '');
+        }
+        if (args.includes('-r')) return ok('loaded');
+        if (command === 'which') return { stdout: '', stderr: '', exitCode: 1 };
+        return ok('');
+    };
+}
+
+describe('buildPeclExtension', () => {
+    let root;
+    beforeEach(() => { root = fs.mkdtempSync(path.join(os.tmpdir(), 'pia-pecl-')); });
+    afterEach(() => fs.rmSync(root, { recursive: true, force: true }));
+
+    const build = (tree, extension) => buildPeclExtension(tree.installation, extension, {
+        sourceDir: tree.sourceDir, cacheDir: path.join(root, 'cache'), run: stubRunner(extension)
+    });
+
+    it('writes a mods-available module file for phpenmod', async () => {
+        const tree = createTree(root);
+        const result = await build(tree, 'redis');
+
+        assert.equal(result.installedPath, path.join(tree.installation.extensionDir, 'redis.so'));
+        assert.ok(fs.existsSync(result.installedPath));
+        assert.equal(result.moduleIniPath, path.join(tree.modsDir, 'redis.ini'));
+        assert.equal(fs.readFileSync(result.moduleIniPath, 'utf8'), '; configuration for php redis module\n; priority=20\nextension=redis.so\n');
+    });
+
+    it('loads Zend extensions with zend_extension=', async () => {
+        const tree = createTree(root);
+        const result = await build(tree, 'xdebug');
+
+        assert.match(fs.readFileSync(result.moduleIniPath, 'utf8'), /^zend_extension=xdebug\.so$/m);
+    });
+
+    it('sorts the module after its prerequisites', async () => {
+        const tree = createTree(root);
+        fs.writeFileSync(path.join(tree.modsDir, 'msgpack.ini'), '; priority=20\nextension=msgpack.so\n');
+        const result = await build(tree, 'memcached');
+
+        assert.match(fs.readFileSync(result.moduleIniPath, 'utf8'), /^; priority=25$/m);
+    });
+
+    it('keeps an existing module file', async () => {
+        const tree = createTree(root);
+        fs.writeFileSync(path.join(tree.modsDir, 'redis.ini'), '; priority=30\nextension=redis.so\n');
+        const result = await build(tree, 'redis');
+
+        assert.equal(result.moduleIniPath, undefined);
+        assert.equal(fs.readFileSync(path.join(tree.modsDir, 'redis.ini'), 'utf8'), '; priority=30\nextension=redis.so\n');
+    });
+
+    it('writes no module file without a mods-available layout', async () => {
+        const tree = createTree(root, { debian: false });
+        const result = await build(tree, 'redis');
+
+        assert.equal(result.moduleIniPath, undefined);
+        assert.ok(fs.existsSync(result.installedPath));
+    });
+});
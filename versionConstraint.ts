@@ -0,0 +1,96 @@
+/**
+ * Parses a version such as "8.2.12" or "8.3.0-1ubuntu1" into numeric parts
+ */
+export function parseVersion(version: string): number[] {
+    const match = version.trim().replace(/^v/i, '').match(/^\d+(\.\d+)*/);
+    return match ? match[0].split('.').map(part => parseInt(part, 10)) : [];
+}
+
+/**
+ * Compares two versions, treating missing parts as 0
+ *
+ * @returns A negative number, zero or a positive number like `Array.prototype.sort` comparators.
+ */
+export function compareVersions(a: string | number[], b: string | number[]): number {
+    const left = typeof a === 'string' ? parseVersion(a) : a;
+    const right = typeof b === 'string' ? parseVersion(b) : b;
+
+    for (let i = 0; i < Math.max(left.length, right.length, 3); i++) {
+        const diff = (left[i] || 0) - (right[i] || 0);
+        if (diff !== 0) return diff;
+    }
+    return 0;
+}
+
+/**
+ * Checks a version against a single constraint term such as ">=8.1", "^8.2" or "8.2.*"
+ */
+function satisfiesTerm(version: number[], term: string): boolean {
+    if (term === '*' || term === '') return true;
+
+    const match = term.match(/^(>=|<=|>|<|!=|==|=|\^|~)?\s*v?([\d.*x]+)/i);
+    if (!match) {
+        throw new Error(`Invalid version constraint: ${term}`);
+    }
+
+    const operator = match[1] || '';
+    const raw = match[2].replace(/\.$/, '');
+    const wildcard = /[*x]/i.test(raw);
+    const target = parseVersion(raw);
+    const cmp = compareVersions(version, target);
+
+    // Returns true when the version starts with the given prefix parts
+    const hasPrefix = (prefix: number[]) => prefix.every((part, i) => (version[i] || 0) === part);
+
+    switch (operator) {
+        case '>=': return cmp >= 0;
+        case '<=': return cmp <= 0;
+        case '>': return cmp > 0;
+        case '<': return cmp < 0;
+        case '!=': return wildcard ? !hasPrefix(target) : cmp !== 0;
+        case '^': {
+            // ^8.2 → >=8.2.0 <9.0.0, ^0.3 → >=0.3.0 <0.4.0
+            const significant = target[0] === 0 && target.length > 1 ? 2 : 1;
+            return cmp >= 0 && hasPrefix(target.slice(0, significant));
+        }
+        case '~': {
+            // ~8.2 → >=8.2.0 <9.0.0, ~8.2.1 → >=8.2.1 <8.3.0
+            const fixed = Math.max(target.length - 1, 1);
+            return cmp >= 0 && hasPrefix(target.slice(0, fixed));
+        }
+        default:
+            // "8.2", "8.2.*" and "=8.2" match every 8.2.x release; a full version matches exactly
+            return hasPrefix(target);
+    }
+}
+
+/**
+ * Checks whether a version satisfies a Composer-style constraint.
+ *
+ * Supports `||` alternatives, space or comma separated conjunctions, comparison operators,
+ * `^` and `~` ranges, wildcards (`8.2.*`) and hyphen ranges (`8.1 - 8.3`). A partial version
+ * without an operator such as `8.2` matches every 8.2.x release.
+ *
+ * @param version - Version to check, e.g. "8.2.12".
+ * @param constraint - Constraint, e.g. "^8.2", ">=8.1 <8.4" or "8.2.* || 8.3.*".
+ * @throws If the constraint cannot be parsed.
+ */
+export function satisfiesVersionConstraint(version: string, constraint: string): boolean {
+    const parsed = parseVersion(version);
+
+    return constraint.split(/\s*\|\|?\s*/).some(alternative => {
+        const hyphen = alternative.trim().match(/^(\S+)\s+-\s+(\S+)$/);
+        if (hyphen) {
+            const upper = parseVersion(hyphen[2]);
+            // A partial upper bound includes the whole release line: 8.1 - 8.3 allows 8.3.x
+            const upperOk = upper.length < 3 ? satisfiesTerm(parsed, `<=${hyphen[2]}`) || satisfiesTerm(parsed, hyphen[2]) : compareVersions(parsed, upper) <= 0;
+            return compareVersions(parsed, hyphen[1]) >= 0 && upperOk;
+        }
+
+        return alternative
+            .trim()
+            .replace(/(>=|<=|>|<|!=|==|=|\^|~)\s+/g, '$1')
+            .split(/[\s,]+/)
+            .every(term => satisfiesTerm(parsed, term));
+    });
+}
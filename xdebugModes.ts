@@ -0,0 +1,173 @@
+import { DirectiveEditResult, displayDirectiveReadings, readDirectives, setDirectives } from './directiveEditor';
+import { PhpInstallation } from './phpEnvironmentUtils';
+import { disablePhpExtensions, enablePhpExtensions } from './phpIniManager';
+import { getExtensionVersion } from './phpRuntime';
+
+// ANSI color codes for consistent styling
+const colors = {
+    reset: '\x1b[0m',
+    bright: '\x1b[1m',
+    red: '\x1b[31m',
+    green: '\x1b[32m',
+    yellow: '\x1b[33m',
+    blue: '\x1b[34m',
+    cyan: '\x1b[36m',
+    white: '\x1b[37m'
+};
+
+export type XdebugMode = 'debug' | 'coverage' | 'profile' | 'off';
+
+export const XDEBUG_MODES: XdebugMode[] = ['debug', 'coverage', 'profile', 'off'];
+
+export interface XdebugOptions {
+    clientHost?: string;        // IDE host (default localhost)
+    clientPort?: string;        // IDE port (default 9003, or 9000 for Xdebug 2)
+    outputDir?: string;         // Profiler output directory (default /tmp)
+    dryRun?: boolean;
+    backupDir?: string;
+}
+
+export interface XdebugSwitchResult {
+    mode: XdebugMode;
+    xdebugVersion: string | null;   // Loaded Xdebug version; null when it could not be determined
+    ok: boolean;                    // Written (or planned) and reported by PHP as expected
+}
+
+// Xdebug 3 renamed every setting; these are the ones a mode switch writes
+const XDEBUG_3_KEYS = ['xdebug.mode', 'xdebug.start_with_request', 'xdebug.client_host', 'xdebug.client_port', 'xdebug.output_dir', 'xdebug.profiler_output_name'];
+const XDEBUG_2_KEYS = ['xdebug.remote_enable', 'xdebug.remote_autostart', 'xdebug.remote_host', 'xdebug.remote_port', 'xdebug.coverage_enable', 'xdebug.profiler_enable', 'xdebug.profiler_output_dir', 'xdebug.profiler_output_name'];
+
+/**
+ * Gets the directives a mode switch writes for an Xdebug version
+ */
+export function getXdebugKeys(xdebugVersion: string): string[] {
+    return isXdebug2(xdebugVersion) ? XDEBUG_2_KEYS : XDEBUG_3_KEYS;
+}
+
+function isXdebug2(xdebugVersion: string): boolean {
+    return /^2\./.test(xdebugVersion);
+}
+
+/**
+ * Builds the complete set of Xdebug settings for a mode, so switching modes never leaves
+ * the previous mode's settings behind. Xdebug 2 has no xdebug.mode; its remote_*, profiler_*
+ * and coverage_enable settings are written instead.
+ *
+ * @param mode - Mode to switch to ('off' turns every feature off).
+ * @param xdebugVersion - Loaded Xdebug version, e.g. "3.3.2".
+ * @param options - Client host and port and the profiler output directory.
+ */
+export function getXdebugSettings(mode: XdebugMode, xdebugVersion: string, options: XdebugOptions = {}): Record<string, string> {
+    const clientHost = options.clientHost || 'localhost';
+    const outputDir = options.outputDir || '/tmp';
+
+    if (isXdebug2(xdebugVersion)) {
+        return {
+            'xdebug.remote_enable': mode === 'debug' ? '1' : '0',
+            'xdebug.remote_autostart': mode === 'debug' ? '1' : '0',
+            'xdebug.remote_host': clientHost,
+            'xdebug.remote_port': options.clientPort || '9000',
+            'xdebug.coverage_enable': mode === 'coverage' ? '1' : '0',
+            'xdebug.profiler_enable': mode === 'profile' ? '1' : '0',
+            'xdebug.profiler_output_dir': outputDir,
+            'xdebug.profiler_output_name': 'cachegrind.out.%p'
+        };
+    }
+
+    return {
+        'xdebug.mode': mode,
+        // Coverage is collected by the test runner, debugging and profiling start with every request
+        'xdebug.start_with_request': mode === 'debug' || mode === 'profile' ? 'yes' : 'default',
+        'xdebug.client_host': clientHost,
+        'xdebug.client_port': options.clientPort || '9003',
+        'xdebug.output_dir': outputDir,
+        'xdebug.profiler_output_name': 'cachegrind.out.%p'
+    };
+}
+
+/**
+ * Whether settings were written (or planned) and PHP reports them as written
+ */
+function isSuccessfulEdit(edit: DirectiveEditResult): boolean {
+    return edit.rejected.length === 0 && edit.validation.valid && !edit.rolledBack && (!edit.verification || edit.verification.ok);
+}
+
+/**
+ * Finds the Xdebug version of an installation: from the loaded extension, or by loading
+ * xdebug.so on its own when the configuration does not load it (yet)
+ */
+export function detectXdebugVersion(installation: PhpInstallation): string | null {
+    return getExtensionVersion(installation.phpExecutable, 'xdebug', ['-c', installation.iniPath]) ||
+        getExtensionVersion(installation.phpExecutable, 'xdebug', ['-n', '-d', `extension_dir=${installation.extensionDir}`, '-d', 'zend_extension=xdebug']);
+}
+
+/**
+ * Prints the installed Xdebug version and its current settings
+ */
+export async function displayXdebugStatus(installation: PhpInstallation, useSudo: boolean = false): Promise<void> {
+    const xdebugVersion = detectXdebugVersion(installation);
+    if (!xdebugVersion) {
+        console.log(`${colors.yellow}⚠️  Xdebug is not installed for PHP ${installation.version} (pia ext install xdebug)${colors.reset}`);
+        return;
+    }
+
+    const loaded = getExtensionVersion(installation.phpExecutable, 'xdebug', ['-c', installation.iniPath]) !== null;
+    console.log(`${colors.bright}🐞 Xdebug ${xdebugVersion}${colors.reset} ${loaded ? `${colors.green}loaded` : `${colors.yellow}not loaded (off)`}${colors.reset}\n`);
+    if (loaded) {
+        displayDirectiveReadings(await readDirectives(installation, getXdebugKeys(xdebugVersion), useSudo));
+    }
+}
+
+/**
+ * Switches Xdebug to a mode. 'off' comments out the zend_extension line (or disables the
+ * module on Debian-style installations), so Xdebug costs nothing; the other modes enable
+ * Xdebug when needed and write the mode's complete set of settings for the loaded version.
+ *
+ * @param installation - Installation to change.
+ * @param mode - debug, coverage, profile or off.
+ * @param useSudo - Whether to use sudo for file operations.
+ * @param options - Client host and port, profiler output directory, dry-run mode and backup store.
+ */
+export async function switchXdebugMode(
+    installation: PhpInstallation,
+    mode: XdebugMode,
+    useSudo: boolean = false,
+    options: XdebugOptions = {}
+): Promise<XdebugSwitchResult> {
+    const editOptions = { dryRun: options.dryRun, backupDir: options.backupDir };
+    let xdebugVersion = getExtensionVersion(installation.phpExecutable, 'xdebug', ['-c', installation.iniPath]);
+
+    if (mode === 'off') {
+        const result = await disablePhpExtensions(installation, ['xdebug'], useSudo, editOptions);
+        if (!result.skipped.includes('xdebug')) {
+            return { mode, xdebugVersion, ok: !result.rolledBack && (!result.verification || result.verification.ok) };
+        }
+
+        // Loaded from a file pia does not manage: turn every feature off from php.ini instead
+        console.log(`${colors.cyan}ℹ️  Turning Xdebug features off in php.ini instead${colors.reset}`);
+        const settings = getXdebugSettings('off', xdebugVersion || '3', options);
+        const edit = await setDirectives(installation, settings, { useSudo, ...editOptions });
+        return { mode, xdebugVersion, ok: isSuccessfulEdit(edit) };
+    }
+
+    if (!xdebugVersion) {
+        const enabled = await enablePhpExtensions(installation, ['xdebug'], useSudo, editOptions);
+        if (enabled.missing.length > 0 || enabled.rolledBack) {
+            return { mode, xdebugVersion: null, ok: false };
+        }
+        xdebugVersion = detectXdebugVersion(installation);
+    }
+    if (!xdebugVersion) {
+        console.log(`${colors.yellow}⚠️  Could not determine the Xdebug version, writing Xdebug 3 settings${colors.reset}`);
+    }
+
+    const settings = getXdebugSettings(mode, xdebugVersion || '3', options);
+    console.log(`${colors.bright}🐞 Xdebug ${xdebugVersion || '3'}: ${mode} mode${colors.reset}`);
+    const edit = await setDirectives(installation, settings, { useSudo, ...editOptions });
+
+    // XDEBUG_MODE in the environment overrides xdebug.mode
+    if (process.env.XDEBUG_MODE && !isXdebug2(xdebugVersion || '3')) {
+        console.log(`${colors.yellow}⚠️  XDEBUG_MODE=${process.env.XDEBUG_MODE} is set in this shell and overrides xdebug.mode${colors.reset}`);
+    }
+    return { mode, xdebugVersion, ok: isSuccessfulEdit(edit) };
+}